@@ -11,6 +11,7 @@ const buildOptions = {
 	format: "cjs",
 	target: "node18",
 	platform: "node",
+	mainFields: ["module", "main"], // jsonc-parser's UMD build can't be bundled, use its ESM build
 	sourcemap: !isProduction,
 	minify: isProduction,
 	logLevel: "info",
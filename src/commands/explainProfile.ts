@@ -0,0 +1,141 @@
+import * as vscode from "vscode";
+import { getGitBranch } from "../utils/gitBranch";
+import { getOpenDocumentLanguage, getProfileIdFromName } from "../utils/profileManager";
+import {
+	describeRule,
+	describeScope,
+	type RuleEvaluation,
+	type RuleOutcome,
+	type RuleSource,
+} from "../utils/profileResolver";
+import {
+	getRemoteAuthority,
+	loadRulesForUri,
+	resolveProfileForUri,
+	type WorkspaceProfileDecision,
+} from "../utils/profileRules";
+import { toFileName } from "../utils/workspaceFs";
+
+const OUTCOME_LABELS: Record<RuleOutcome, string> = {
+	selected: "✅ selected",
+	noMatch: "no match",
+	outranked: "outranked",
+	excluded: "excluded",
+	negation: "exclusion",
+	shadowed: "shadowed",
+	disabled: "disabled",
+	inactive: "conditions not met",
+};
+
+/**
+ * Opens a report explaining which profile applies to a file or folder and why.
+ * Called with the selected resource from the editor/explorer context menus,
+ * or without arguments for the active editor.
+ */
+export async function explainProfile(resourceUri?: vscode.Uri) {
+	const uri = resourceUri ?? vscode.window.activeTextEditor?.document.uri;
+
+	if (!uri) {
+		vscode.window.showErrorMessage("Open a file or select a folder to explain its profile.");
+		return;
+	}
+
+	await loadRulesForUri(uri);
+	const decision = resolveProfileForUri(uri, { languageId: getOpenDocumentLanguage(uri) });
+	if (!decision) {
+		vscode.window.showErrorMessage(`"${toFileName(uri)}" is not part of the workspace.`);
+		return;
+	}
+
+	const content = await buildReport(uri, decision);
+	const document = await vscode.workspace.openTextDocument({ language: "markdown", content });
+	await vscode.window.showTextDocument(document, { preview: true });
+}
+
+/**
+ * Renders the resolution trace as Markdown
+ */
+async function buildReport(uri: vscode.Uri, decision: WorkspaceProfileDecision): Promise<string> {
+	const lines: string[] = [];
+	const target = decision.relativePath || ".";
+
+	lines.push(`# Profile for \`${target}\``, "");
+	lines.push(`- **Resource:** \`${toFileName(uri)}\``);
+	lines.push(
+		`- **Workspace folder:** ${decision.workspaceFolder.name} (\`${toFileName(decision.workspaceFolder.uri)}\`)`,
+	);
+	const remoteAuthority = getRemoteAuthority(decision.workspaceFolder);
+	if (remoteAuthority) {
+		lines.push(`- **Remote:** \`${remoteAuthority}\``);
+	}
+	const branch = getGitBranch(decision.workspaceFolder.uri);
+	if (branch) {
+		lines.push(`- **Git branch:** \`${branch}\``);
+	}
+
+	if (decision.profile && decision.rule) {
+		lines.push(`- **Profile:** ${decision.profile}`);
+		lines.push(`- **Chosen by:** ${describeRule(decision.rule)}`);
+		lines.push(`- **Defined in:** ${formatSource(decision.rule.source)}`);
+	} else {
+		lines.push("- **Profile:** none (no rule applies, the current profile is kept)");
+	}
+
+	lines.push("", "## Rules", "");
+
+	if (decision.evaluations.length === 0) {
+		lines.push(
+			"No workspace profile, directory or language rule is configured in any settings scope or config file.",
+		);
+	} else {
+		lines.push("| Rule | Profile | Scope | Matched | Outcome | Reason |");
+		lines.push("| --- | --- | --- | --- | --- | --- |");
+		for (const evaluation of decision.evaluations) {
+			lines.push(formatEvaluation(evaluation));
+		}
+	}
+
+	const profileNames = [...new Set(decision.evaluations.map(({ rule }) => rule.profile))];
+	if (profileNames.length > 0) {
+		lines.push("", "## Profile names", "");
+		lines.push("| Name | Resolved profile ID |");
+		lines.push("| --- | --- |");
+		for (const name of profileNames) {
+			const profileId = await getProfileIdFromName(name);
+			const resolved =
+				profileId === null ? "⚠️ not found" : profileId === "" ? "default profile" : `\`${profileId}\``;
+			lines.push(`| ${escapeCell(name)} | ${resolved} |`);
+		}
+	}
+
+	lines.push("");
+	return lines.join("\n");
+}
+
+function formatEvaluation({ rule, matched, outcome, reason }: RuleEvaluation): string {
+	const name =
+		rule.kind === "workspace"
+			? "workspaceProfile"
+			: rule.kind === "language"
+				? `language \`${rule.pattern}\``
+				: rule.kind === "package"
+					? `package \`${rule.pattern || "./"}\``
+					: rule.kind === "filePattern"
+						? `file pattern \`${rule.pattern}\``
+						: rule.kind === "remote"
+							? `remote \`${rule.pattern}\``
+							: `\`${rule.pattern}\``;
+	const explanation = rule.options?.description ? `${reason} (${rule.options.description})` : reason;
+	return `| ${escapeCell(name)} | ${escapeCell(rule.profile)} | ${formatSource(rule.source)} | ${
+		matched ? "yes" : "no"
+	} | ${OUTCOME_LABELS[outcome]} | ${escapeCell(explanation)} |`;
+}
+
+function formatSource(source: RuleSource): string {
+	const scope = describeScope(source.scope);
+	return source.file ? `${scope} (\`${source.file}\`)` : scope;
+}
+
+function escapeCell(value: string): string {
+	return value.replace(/\|/g, "\\|");
+}
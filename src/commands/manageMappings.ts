@@ -0,0 +1,240 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { isGlobPattern, normalizeRelativePath } from "../utils/pathMatcher";
+import { getAvailableProfiles } from "../utils/profileManager";
+import {
+	describeRule,
+	describeScope,
+	type ProfileRule,
+	type RuleValue,
+} from "../utils/profileResolver";
+import { collectProfileRules } from "../utils/profileRules";
+import { updateRuleAtSource } from "../utils/settingsTargets";
+import { getRelativePath } from "../utils/workspaceFs";
+
+/** Context key listing the folders (fsPath) that have a directory mapping */
+export const MAPPED_FOLDERS_CONTEXT = "profileSwitcher.mappedFolders";
+
+interface MappingItem extends vscode.QuickPickItem {
+	folder: vscode.WorkspaceFolder;
+	rule: ProfileRule;
+}
+
+/**
+ * Lists every rule of every workspace folder; the selected ones can be removed or
+ * reassigned to another profile in one go
+ */
+export async function manageMappings() {
+	const items = getMappingItems(() => true);
+
+	if (items.length === 0) {
+		vscode.window.showInformationMessage("No profile mappings are configured.");
+		return;
+	}
+
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: "Select the mappings to remove or reassign",
+		canPickMany: true,
+		matchOnDescription: true,
+	});
+
+	if (!selected || selected.length === 0) {
+		return;
+	}
+
+	const action = await vscode.window.showQuickPick(
+		[
+			{ label: "$(edit) Reassign to another profile", action: "reassign" as const },
+			{ label: "$(trash) Remove", action: "remove" as const },
+		],
+		{ placeHolder: `What should happen to ${countMappings(selected.length)}?` },
+	);
+
+	if (action?.action === "remove") {
+		await removeMappings(selected);
+	} else if (action?.action === "reassign") {
+		await reassignMappings(selected);
+	}
+}
+
+/**
+ * Removes the directory mapping of a folder, from the Explorer context menu or the
+ * command palette (which lists every directory mapping)
+ */
+export async function removeFolderProfile(folderUri?: vscode.Uri) {
+	if (!folderUri) {
+		const items = getMappingItems((rule) => rule.kind === "directory");
+		if (items.length === 0) {
+			vscode.window.showInformationMessage("No folder profile mappings are configured.");
+			return;
+		}
+
+		const selected = await vscode.window.showQuickPick(items, {
+			placeHolder: "Select the folder mappings to remove",
+			canPickMany: true,
+		});
+		if (selected && selected.length > 0) {
+			await removeMappings(selected);
+		}
+		return;
+	}
+
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(folderUri);
+	if (!workspaceFolder) {
+		vscode.window.showErrorMessage("Selected folder is not part of the workspace.");
+		return;
+	}
+
+	const key = normalizeRelativePath(getRelativePath(workspaceFolder.uri, folderUri));
+	const items = getMappingItems(
+		(rule, folder) =>
+			folder.uri.toString() === workspaceFolder.uri.toString() &&
+			rule.kind === "directory" &&
+			normalizeRelativePath(rule.pattern ?? "") === key,
+	);
+
+	if (items.length === 0) {
+		vscode.window.showInformationMessage(`No profile mapping is configured for "${key}/".`);
+		return;
+	}
+
+	await removeMappings(
+		await pickWhenSeveral(items, `Several scopes map "${key}/"; select the ones to remove`),
+	);
+}
+
+/**
+ * Removes the workspace profile of the workspace folders, from every settings scope
+ */
+export async function clearWorkspaceProfile() {
+	const items = getMappingItems((rule) => rule.kind === "workspace");
+
+	if (items.length === 0) {
+		vscode.window.showInformationMessage("No workspace profile is configured.");
+		return;
+	}
+
+	await removeMappings(
+		await pickWhenSeveral(
+			items,
+			"Several workspace profiles are configured; select the ones to remove",
+		),
+	);
+}
+
+/**
+ * Sets the context key the Explorer menu uses to offer "Remove Folder Profile"
+ */
+export async function updateMappedFoldersContext(): Promise<void> {
+	const folders = getMappingItems(
+		(rule) =>
+			rule.kind === "directory" &&
+			!rule.pattern?.startsWith("!") &&
+			!isGlobPattern(rule.pattern ?? ""),
+	).map((item) => path.join(item.folder.uri.fsPath, normalizeRelativePath(item.rule.pattern ?? "")));
+
+	await vscode.commands.executeCommand("setContext", MAPPED_FOLDERS_CONTEXT, [...new Set(folders)]);
+}
+
+function getMappingItems(
+	filter: (rule: ProfileRule, folder: vscode.WorkspaceFolder) => boolean,
+): MappingItem[] {
+	const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+
+	return workspaceFolders.flatMap((folder) =>
+		collectProfileRules(folder)
+			.filter((rule) => filter(rule, folder))
+			.map((rule) => ({
+				label: rule.kind === "workspace" ? "Workspace profile" : (rule.pattern ?? ""),
+				description: `${rule.profile} · ${describeScope(rule.source.scope)}${
+					workspaceFolders.length > 1 ? ` · ${folder.name}` : ""
+				}`,
+				detail: rule.kind === "workspace" || rule.kind === "directory" ? undefined : describeRule(rule),
+				folder,
+				rule,
+			})),
+	);
+}
+
+/**
+ * Lets the user choose among several matching mappings; a single one is returned as is
+ */
+async function pickWhenSeveral(items: MappingItem[], placeHolder: string): Promise<MappingItem[]> {
+	if (items.length === 1) {
+		return items;
+	}
+
+	const selected = await vscode.window.showQuickPick(
+		items.map((item) => ({ ...item, picked: true })),
+		{ placeHolder, canPickMany: true },
+	);
+	return selected ?? [];
+}
+
+async function removeMappings(items: MappingItem[]): Promise<void> {
+	if (items.length === 0) {
+		return;
+	}
+
+	const confirmation = await vscode.window.showWarningMessage(
+		items.length === 1
+			? `Remove the ${describeRule(items[0].rule)} ("${items[0].rule.profile}") from ${describeScope(items[0].rule.source.scope)} settings?`
+			: `Remove ${countMappings(items.length)}?`,
+		{ modal: true },
+		"Remove",
+	);
+	if (confirmation !== "Remove") {
+		return;
+	}
+
+	const failed = await updateEach(items, () => undefined);
+	if (failed === 0) {
+		vscode.window.showInformationMessage(`Removed ${countMappings(items.length)}.`);
+	}
+}
+
+async function reassignMappings(items: MappingItem[]): Promise<void> {
+	const profiles = await getAvailableProfiles();
+	const selected = await vscode.window.showQuickPick(profiles, {
+		placeHolder: `Select the profile for ${countMappings(items.length)}`,
+	});
+	if (!selected) {
+		return;
+	}
+
+	// Keep each rule's options when it is written as an object
+	const failed = await updateEach(items, (rule) =>
+		rule.options ? { ...rule.options, profile: selected } : selected,
+	);
+	if (failed === 0) {
+		vscode.window.showInformationMessage(
+			`Reassigned ${countMappings(items.length)} to "${selected}".`,
+		);
+	}
+}
+
+/**
+ * Writes each mapping in its own scope; failures are reported and don't stop the others
+ * Returns the number of mappings that could not be written
+ */
+async function updateEach(
+	items: MappingItem[],
+	value: (rule: ProfileRule) => RuleValue | undefined,
+): Promise<number> {
+	let failed = 0;
+
+	for (const { folder, rule } of items) {
+		try {
+			await updateRuleAtSource(folder, rule, value(rule));
+		} catch (error) {
+			failed++;
+			vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+		}
+	}
+
+	return failed;
+}
+
+function countMappings(count: number): string {
+	return `${count} profile mapping${count === 1 ? "" : "s"}`;
+}
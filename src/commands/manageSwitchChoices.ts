@@ -0,0 +1,38 @@
+import * as vscode from "vscode";
+import type { RememberedSwitchChoice, SwitchPrompt } from "../utils/switchPrompt";
+
+/**
+ * Lists the remembered "always" / "never" switch answers and forgets the selected ones
+ */
+export async function manageSwitchChoices(prompt: SwitchPrompt) {
+	const choices = prompt.getChoices();
+
+	if (choices.length === 0) {
+		vscode.window.showInformationMessage("No remembered profile switch choices.");
+		return;
+	}
+
+	const items = choices.map((choice) => ({
+		label: `${choice.choice === "always" ? "$(check)" : "$(circle-slash)"} ${choice.profile}`,
+		description: `${choice.choice === "always" ? "Always" : "Never"} ${
+			choice.ruleKind ? `switch for the ${choice.rule}` : "switch back to the previous profile"
+		}`,
+		detail: choice.directory ? `${choice.folderName}/${choice.directory}` : choice.folderName,
+		choice,
+	}));
+
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: "Select the choices to forget; you will be asked again next time",
+		canPickMany: true,
+	});
+
+	if (!selected || selected.length === 0) {
+		return;
+	}
+
+	const forgotten: RememberedSwitchChoice[] = selected.map((item) => item.choice);
+	await prompt.forget(forgotten);
+	vscode.window.showInformationMessage(
+		`Forgot ${forgotten.length} remembered profile switch choice${forgotten.length === 1 ? "" : "s"}.`,
+	);
+}
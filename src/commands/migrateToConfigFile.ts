@@ -0,0 +1,140 @@
+import * as vscode from "vscode";
+import {
+	CONFIG_FILE_VERSION,
+	findConfigFile,
+	getConfigFileUri,
+	readConfigFile,
+} from "../utils/configFile";
+import { readSettingsFile, updateSettingsFile } from "../utils/jsoncSettings";
+import type { RuleSettings } from "../utils/profileResolver";
+import {
+	DIRECTORY_PROFILES_KEY,
+	FILE_PATTERN_PROFILES_KEY,
+	getSettingsUri,
+	LANGUAGE_PROFILES_KEY,
+	REMOTE_PROFILES_KEY,
+	WORKSPACE_PROFILE_KEY,
+} from "../utils/settingsManager";
+
+/** Rule maps that can be moved, by config file key */
+const RULE_MAP_KEYS: [keyof RuleSettings, string][] = [
+	["directoryProfiles", DIRECTORY_PROFILES_KEY],
+	["filePatternProfiles", FILE_PATTERN_PROFILES_KEY],
+	["languageProfiles", LANGUAGE_PROFILES_KEY],
+	["remoteProfiles", REMOTE_PROFILES_KEY],
+];
+
+/**
+ * Moves profileSwitcher.workspaceProfile and the directory, file pattern, language and
+ * remote rule maps from a folder's .vscode/settings.json into its profile switcher config file.
+ * Rules already in the config file are kept when both define the same key.
+ */
+export async function migrateToConfigFile() {
+	const workspaceFolders = vscode.workspace.workspaceFolders;
+
+	if (!workspaceFolders || workspaceFolders.length === 0) {
+		vscode.window.showErrorMessage("No workspace folder is open.");
+		return;
+	}
+
+	// For multi-root workspaces, let user choose which folder
+	let targetFolder: vscode.WorkspaceFolder;
+	if (workspaceFolders.length === 1) {
+		targetFolder = workspaceFolders[0];
+	} else {
+		const folderItems = workspaceFolders.map((folder) => ({
+			label: folder.name,
+			description: folder.uri.fsPath,
+			folder: folder,
+		}));
+
+		const selected = await vscode.window.showQuickPick(folderItems, {
+			placeHolder: "Select a workspace folder to migrate",
+		});
+
+		if (!selected) {
+			return;
+		}
+
+		targetFolder = selected.folder;
+	}
+
+	const settingsPath = getSettingsUri(targetFolder.uri);
+	const existingConfigPath = await findConfigFile(targetFolder.uri);
+	const configPath = existingConfigPath ?? getConfigFileUri(targetFolder.uri);
+
+	try {
+		const settings = await readSettingsFile(settingsPath);
+		const workspaceProfile = settings[WORKSPACE_PROFILE_KEY];
+		const ruleEntries = RULE_MAP_KEYS.flatMap(([configKey, settingsKey]) => {
+			const rules = settings[settingsKey];
+			return rules && typeof rules === "object"
+				? Object.entries(rules as Record<string, unknown>).map(
+						([pattern, profile]) => [configKey, pattern, profile] as const,
+					)
+				: [];
+		});
+
+		if (
+			workspaceProfile === undefined &&
+			RULE_MAP_KEYS.every(([, settingsKey]) => settings[settingsKey] === undefined)
+		) {
+			vscode.window.showInformationMessage(
+				`No profile switcher settings to migrate in ${targetFolder.name}/.vscode/settings.json.`,
+			);
+			return;
+		}
+
+		const ruleCount = (workspaceProfile ? 1 : 0) + ruleEntries.length;
+		const confirmation = await vscode.window.showInformationMessage(
+			`Move ${ruleCount} profile rule${ruleCount === 1 ? "" : "s"} from settings.json to ${vscode.workspace.asRelativePath(configPath)}?`,
+			{ modal: true },
+			"Move",
+		);
+		if (confirmation !== "Move") {
+			return;
+		}
+
+		// Validate the existing config file before touching anything
+		const existing = existingConfigPath ? await readConfigFile(existingConfigPath) : undefined;
+		let kept = 0;
+
+		if (!existing) {
+			await updateSettingsFile(configPath, ["version"], CONFIG_FILE_VERSION);
+		}
+
+		if (typeof workspaceProfile === "string" && workspaceProfile) {
+			if (existing?.workspaceProfile === undefined) {
+				await updateSettingsFile(configPath, ["workspaceProfile"], workspaceProfile);
+			} else {
+				kept++;
+			}
+		}
+
+		for (const [configKey, pattern, profile] of ruleEntries) {
+			const existingRules = existing?.[configKey] as Record<string, unknown> | undefined;
+			if (existingRules?.[pattern] === undefined) {
+				await updateSettingsFile(configPath, [configKey, pattern], profile);
+			} else {
+				kept++;
+			}
+		}
+
+		// Only remove the settings once everything was written
+		await updateSettingsFile(settingsPath, [WORKSPACE_PROFILE_KEY], undefined);
+		for (const [, settingsKey] of RULE_MAP_KEYS) {
+			await updateSettingsFile(settingsPath, [settingsKey], undefined);
+		}
+
+		const document = await vscode.workspace.openTextDocument(configPath);
+		await vscode.window.showTextDocument(document);
+
+		vscode.window.showInformationMessage(
+			kept > 0
+				? `Profile rules moved to ${vscode.workspace.asRelativePath(configPath)}. ${kept} rule${kept === 1 ? " was" : "s were"} already defined there and kept as is.`
+				: `Profile rules moved to ${vscode.workspace.asRelativePath(configPath)}.`,
+		);
+	} catch (error) {
+		vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+	}
+}
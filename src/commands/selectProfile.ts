@@ -1,8 +1,13 @@
 import * as vscode from "vscode";
-import { updateWorkspaceProfile } from "../utils/settingsManager";
-import { getAvailableProfiles, switchToProfile } from "../utils/profileManager";
+import { getAvailableProfiles, reportSwitchResult } from "../utils/profileManager";
+import {
+	describeSettingsTarget,
+	pickSettingsTarget,
+	writeWorkspaceProfile,
+} from "../utils/settingsTargets";
+import type { SwitchScheduler } from "../utils/switchScheduler";
 
-export async function selectProfileForWorkspace() {
+export async function selectProfileForWorkspace(scheduler: SwitchScheduler) {
 	const workspaceFolders = vscode.workspace.workspaceFolders;
 
 	if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -48,9 +53,19 @@ export async function selectProfileForWorkspace() {
 			return;
 		}
 
-		await updateWorkspaceProfile(targetFolder.uri.fsPath, profileName);
+		const target = await pickSettingsTarget(targetFolder);
+		if (!target) {
+			return;
+		}
+
+		try {
+			await writeWorkspaceProfile(targetFolder, profileName, target);
+		} catch (error) {
+			vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+			return;
+		}
 		vscode.window.showInformationMessage(
-			`Profile "${profileName}" set for workspace. Please reload the window to apply.`,
+			`Profile "${profileName}" set for workspace in ${describeSettingsTarget(target)}. Please reload the window to apply.`,
 		);
 		return;
 	}
@@ -71,25 +86,20 @@ export async function selectProfileForWorkspace() {
 		return;
 	}
 
-	await updateWorkspaceProfile(targetFolder.uri.fsPath, selectedProfile.label);
-	
-	// Actually switch to the selected profile
-	const switched = await switchToProfile(selectedProfile.label);
-	if (switched) {
-		vscode.window.showInformationMessage(
-			`Switched to profile "${selectedProfile.label}" for this workspace.`,
-		);
-	} else {
-		vscode.window
-			.showWarningMessage(
-				`Profile "${selectedProfile.label}" saved, but failed to switch. Please reload the window to apply.`,
-				"Reload Window",
-			)
-			.then((selection) => {
-				if (selection === "Reload Window") {
-					vscode.commands.executeCommand("workbench.action.reloadWindow");
-				}
-			});
+	const target = await pickSettingsTarget(targetFolder);
+	if (!target) {
+		return;
 	}
-}
 
+	try {
+		await writeWorkspaceProfile(targetFolder, selectedProfile.label, target);
+	} catch (error) {
+		vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+		return;
+	}
+
+	// Actually switch to the selected profile, queued behind any automatic switch, and
+	// report what really happened
+	const result = await scheduler.switchTo(selectedProfile.label, { trigger: "command" });
+	reportSwitchResult(result, "this workspace");
+}
@@ -1,11 +1,15 @@
 import * as vscode from "vscode";
+import { getAvailableProfiles, reportSwitchResult } from "../utils/profileManager";
+import { isGlobPattern } from "../utils/pathMatcher";
 import {
-	updateDirectoryProfile,
-	getRelativePathFromWorkspace,
-} from "../utils/settingsManager";
-import { getAvailableProfiles, switchToProfile } from "../utils/profileManager";
-
-export async function selectProfileForFolder(folderUri?: vscode.Uri) {
+	describeSettingsTarget,
+	pickSettingsTarget,
+	writeDirectoryProfile,
+} from "../utils/settingsTargets";
+import type { SwitchScheduler } from "../utils/switchScheduler";
+import { getRelativePath } from "../utils/workspaceFs";
+
+export async function selectProfileForFolder(scheduler: SwitchScheduler, folderUri?: vscode.Uri) {
 	const workspaceFolders = vscode.workspace.workspaceFolders;
 
 	if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -20,16 +24,11 @@ export async function selectProfileForFolder(folderUri?: vscode.Uri) {
 	if (folderUri) {
 		const workspace = vscode.workspace.getWorkspaceFolder(folderUri);
 		if (!workspace) {
-			vscode.window.showErrorMessage(
-				"Selected folder is not part of the workspace.",
-			);
+			vscode.window.showErrorMessage("Selected folder is not part of the workspace.");
 			return;
 		}
 		workspaceFolder = workspace;
-		relativePath = getRelativePathFromWorkspace(
-			workspace.uri.fsPath,
-			folderUri.fsPath,
-		);
+		relativePath = `${getRelativePath(workspace.uri, folderUri)}/`;
 	} else {
 		// Called from command palette - ask for workspace folder first if multiple
 		if (workspaceFolders.length === 1) {
@@ -52,17 +51,17 @@ export async function selectProfileForFolder(folderUri?: vscode.Uri) {
 			workspaceFolder = selected.folder;
 		}
 
-		// Ask for the relative path
+		// Ask for the relative path or glob pattern
 		const pathInput = await vscode.window.showInputBox({
-			prompt: "Enter the relative path from workspace root",
-			placeHolder: "e.g., backend/, frontend/, src/components/",
+			prompt: "Enter the relative path or glob pattern from workspace root",
+			placeHolder: "e.g., backend/, packages/*/api/, **/*.ipynb, !legacy/",
 			validateInput: (value) => {
 				if (!value || value.trim().length === 0) {
 					return "Path cannot be empty";
 				}
 				// Normalize path separators
 				const normalized = value.replace(/\\/g, "/");
-				if (!normalized.endsWith("/")) {
+				if (!isGlobPattern(normalized) && !normalized.endsWith("/")) {
 					return "Path should end with / for directories";
 				}
 				return null;
@@ -73,15 +72,13 @@ export async function selectProfileForFolder(folderUri?: vscode.Uri) {
 			return;
 		}
 
-		// Normalize the path
+		// Normalize the path (glob patterns are kept as typed)
 		relativePath = pathInput.replace(/\\/g, "/");
-		if (!relativePath.endsWith("/")) {
+		if (!isGlobPattern(relativePath) && !relativePath.endsWith("/")) {
 			relativePath += "/";
 		}
 	}
 
-	const workspacePath = workspaceFolder.uri.fsPath;
-
 	// Get available profiles and show dropdown
 	const profiles = await getAvailableProfiles();
 
@@ -98,9 +95,19 @@ export async function selectProfileForFolder(folderUri?: vscode.Uri) {
 			return;
 		}
 
-		await updateDirectoryProfile(workspacePath, relativePath, profileName);
+		const target = await pickSettingsTarget(workspaceFolder, "directory");
+		if (!target) {
+			return;
+		}
+
+		try {
+			await writeDirectoryProfile(workspaceFolder, relativePath, profileName, target);
+		} catch (error) {
+			vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+			return;
+		}
 		vscode.window.showInformationMessage(
-			`Profile "${profileName}" set for folder "${relativePath}". Please reload the window to apply.`,
+			`Profile "${profileName}" set for folder "${relativePath}" in ${describeSettingsTarget(target)}. Please reload the window to apply.`,
 		);
 		return;
 	}
@@ -121,29 +128,20 @@ export async function selectProfileForFolder(folderUri?: vscode.Uri) {
 		return;
 	}
 
-	await updateDirectoryProfile(
-		workspacePath,
-		relativePath,
-		selectedProfile.label,
-	);
-	
-	// Actually switch to the selected profile
-	const switched = await switchToProfile(selectedProfile.label);
-	if (switched) {
-		vscode.window.showInformationMessage(
-			`Switched to profile "${selectedProfile.label}" for folder "${relativePath}".`,
-		);
-	} else {
-		vscode.window
-			.showWarningMessage(
-				`Profile "${selectedProfile.label}" saved for folder "${relativePath}", but failed to switch. Please reload the window to apply.`,
-				"Reload Window",
-			)
-			.then((selection) => {
-				if (selection === "Reload Window") {
-					vscode.commands.executeCommand("workbench.action.reloadWindow");
-				}
-			});
+	const target = await pickSettingsTarget(workspaceFolder, "directory");
+	if (!target) {
+		return;
 	}
-}
 
+	try {
+		await writeDirectoryProfile(workspaceFolder, relativePath, selectedProfile.label, target);
+	} catch (error) {
+		vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+		return;
+	}
+
+	// Actually switch to the selected profile, queued behind any automatic switch, and
+	// report what really happened
+	const result = await scheduler.switchTo(selectedProfile.label, { trigger: "command" });
+	reportSwitchResult(result, `folder "${relativePath}"`);
+}
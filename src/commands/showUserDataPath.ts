@@ -0,0 +1,73 @@
+import * as vscode from "vscode";
+import { getProfileRegistry } from "../utils/profileRegistry";
+import { detectUserDataPath, type UserDataPathSource } from "../utils/userDataPath";
+
+const SOURCE_LABELS: Record<UserDataPathSource, string> = {
+	setting: "profileSwitcher.userDataPath",
+	globalStorage: "extension global storage",
+	portable: "VSCODE_PORTABLE",
+	appName: "editor default location",
+	fallback: "known editor fallback",
+	none: "none",
+};
+
+/** Environment variables that affect detection */
+const ENVIRONMENT_VARIABLES = [
+	"VSCODE_PORTABLE",
+	"VSCODE_APPDATA",
+	"APPDATA",
+	"XDG_CONFIG_HOME",
+	"FLATPAK_ID",
+	"SNAP",
+];
+
+/**
+ * Opens a report showing which user data directory profiles are read from and why
+ */
+export async function showUserDataPath() {
+	const detection = detectUserDataPath();
+	const profiles = await getProfileRegistry().getProfiles();
+	const lines: string[] = [];
+
+	lines.push("# Profile Switcher user data directory", "");
+	lines.push(`- **Path:** ${detection.path ? `\`${detection.path}\`` : "not found"}`);
+	lines.push(`- **Source:** ${SOURCE_LABELS[detection.source]}`);
+	lines.push(`- **Reason:** ${detection.reason}`);
+	lines.push(
+		`- **Profiles found:** ${profiles.map((profile) => profile.name).join(", ") || "none"}`,
+	);
+
+	for (const warning of detection.warnings) {
+		lines.push("", `> ⚠️ ${warning}`);
+	}
+
+	lines.push("", "## Editor", "");
+	lines.push(`- **Application:** ${vscode.env.appName}`);
+	lines.push(`- **Install folder:** \`${vscode.env.appRoot}\``);
+	lines.push(`- **Remote:** ${vscode.env.remoteName ?? "none"}`);
+
+	lines.push("", "## Locations checked", "");
+	lines.push("| Path | Source | Has User folder |", "| --- | --- | --- |");
+	for (const candidate of detection.candidates) {
+		lines.push(
+			`| \`${candidate.path}\` | ${SOURCE_LABELS[candidate.source]} | ${candidate.exists ? "yes" : "no"} |`,
+		);
+	}
+
+	lines.push("", "## Environment", "");
+	for (const name of ENVIRONMENT_VARIABLES) {
+		lines.push(`- \`${name}\`: ${process.env[name] ? `\`${process.env[name]}\`` : "not set"}`);
+	}
+
+	lines.push(
+		"",
+		"Set `profileSwitcher.userDataPath` to the folder containing `User/` if the wrong directory is used.",
+		"",
+	);
+
+	const document = await vscode.workspace.openTextDocument({
+		language: "markdown",
+		content: lines.join("\n"),
+	});
+	await vscode.window.showTextDocument(document, { preview: true });
+}
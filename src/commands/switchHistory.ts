@@ -0,0 +1,117 @@
+import * as vscode from "vscode";
+import { getWorkspaceUri } from "../utils/profileManager";
+import {
+	clearSwitchHistory,
+	getSwitchHistory,
+	getWorkspaceSwitchHistory,
+	type SwitchHistoryEntry,
+	type SwitchTrigger,
+} from "../utils/switchHistory";
+import type { ScheduledSwitchResult, SwitchScheduler } from "../utils/switchScheduler";
+
+const TRIGGER_LABELS: Record<SwitchTrigger, string> = {
+	startup: "workspace opened",
+	editorChange: "editor change",
+	settingsChange: "settings change",
+	command: "manual",
+	switchBack: "switched back",
+	restore: "left mapped files",
+};
+
+interface HistoryItem extends vscode.QuickPickItem {
+	/** Undefined for the "Clear History" item */
+	entry?: SwitchHistoryEntry;
+}
+
+/**
+ * Switches to the profile the window ran in before the last switch in this workspace;
+ * running it again switches forth
+ */
+export async function switchBack(scheduler: SwitchScheduler) {
+	const lastSwitch = getWorkspaceSwitchHistory(getWorkspaceUri())[0];
+
+	if (!lastSwitch) {
+		vscode.window.showInformationMessage("No profile switch to undo in this workspace.");
+		return;
+	}
+	if (!lastSwitch.previous) {
+		vscode.window.showInformationMessage(
+			`The profile used before switching to "${lastSwitch.profile}" is unknown.`,
+		);
+		return;
+	}
+
+	reportResult(await scheduler.switchTo(lastSwitch.previous, { trigger: "switchBack" }));
+}
+
+/**
+ * Lists the recorded switches of every workspace, newest first; selecting one switches
+ * to its profile
+ */
+export async function showSwitchHistory(scheduler: SwitchScheduler) {
+	const entries = getSwitchHistory();
+
+	if (entries.length === 0) {
+		vscode.window.showInformationMessage("No profile switches recorded yet.");
+		return;
+	}
+
+	const items: HistoryItem[] = entries.map((entry) => ({
+		label: `$(history) ${entry.profile}`,
+		description: [
+			entry.previous ? `from "${entry.previous}"` : undefined,
+			TRIGGER_LABELS[entry.trigger],
+			new Date(entry.timestamp).toLocaleString(),
+		]
+			.filter((part) => part !== undefined)
+			.join(" · "),
+		detail: [entry.workspaceName ?? "No workspace", entry.rule]
+			.filter((part) => part !== undefined)
+			.join(" · "),
+		entry,
+	}));
+	items.push(
+		{ label: "", kind: vscode.QuickPickItemKind.Separator },
+		{ label: "$(clear-all) Clear History" },
+	);
+
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: "Recent profile switches, newest first. Select one to switch to its profile",
+		matchOnDescription: true,
+		matchOnDetail: true,
+	});
+
+	if (!selected) {
+		return;
+	}
+	if (!selected.entry) {
+		await clearSwitchHistory();
+		vscode.window.showInformationMessage("Cleared the profile switch history.");
+		return;
+	}
+
+	reportResult(await scheduler.switchTo(selected.entry.profile, { trigger: "command" }));
+}
+
+/**
+ * Tells the user when a switch didn't happen as asked
+ */
+function reportResult(result: ScheduledSwitchResult): void {
+	const { outcome, profile, reason } = result;
+
+	switch (outcome) {
+		case "alreadyActive":
+			vscode.window.showInformationMessage(`Profile "${profile}" is already active.`);
+			return;
+		case "pickerShown":
+			vscode.window.showInformationMessage(
+				`VS Code did not switch automatically. Choose "${profile}" in the profile picker to switch now.`,
+			);
+			return;
+		case "failed":
+			vscode.window.showWarningMessage(
+				`Failed to switch to profile "${profile}": ${reason}. Please switch manually.`,
+			);
+			return;
+	}
+}
@@ -1,48 +1,175 @@
 import * as vscode from "vscode";
+import { explainProfile } from "./commands/explainProfile";
+import {
+	clearWorkspaceProfile,
+	manageMappings,
+	removeFolderProfile,
+} from "./commands/manageMappings";
+import { manageSwitchChoices } from "./commands/manageSwitchChoices";
+import { migrateToConfigFile } from "./commands/migrateToConfigFile";
 import { selectProfileForWorkspace } from "./commands/selectProfile";
 import { selectProfileForFolder } from "./commands/selectProfileForFolder";
+import { showUserDataPath } from "./commands/showUserDataPath";
+import { showSwitchHistory, switchBack } from "./commands/switchHistory";
+import { ConfigurationService } from "./utils/configurationService";
+import { initializePersonalMappings } from "./utils/personalMappings";
 import {
 	applyProfileForActiveFile,
 	applyProfileOnStartup,
+	getRunningProfileName,
 } from "./utils/profileManager";
+import { getProfileRegistry } from "./utils/profileRegistry";
+import { initializeSwitchHistory } from "./utils/switchHistory";
+import { SwitchPrompt } from "./utils/switchPrompt";
+import { SwitchScheduler } from "./utils/switchScheduler";
+import { initializeUserDataPath } from "./utils/userDataPath";
+import { ProfileMappingsTree } from "./views/mappingsTree";
+import { ProfileDriftChecker } from "./views/profileDrift";
+import { RuleDiagnostics } from "./views/ruleDiagnostics";
+import { ProfileStatusBar } from "./views/statusBar";
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log("Profile Switcher extension is now active!");
 
+	// Personal (never committed) mappings are kept in global state
+	initializePersonalMappings(context.globalState);
+
+	// Switches performed by the extension are recorded in global state too
+	initializeSwitchHistory(context.globalState);
+
+	// Profiles are loaded once and reloaded when the editor's profile storage changes
+	// The user data directory is detected from the running editor, see userDataPath.ts
+	initializeUserDataPath(context);
+	context.subscriptions.push(getProfileRegistry());
+
+	// Settings, config files and editor changes are all observed through one service
+	const configuration = new ConfigurationService();
+	context.subscriptions.push(configuration);
+
+	// Automatic switches and the ones commands or the status bar make go through one
+	// scheduler so they never race each other
+	const scheduler = new SwitchScheduler(() => getRunningProfileName(context.globalStorageUri));
+	context.subscriptions.push(scheduler);
+
 	// Register commands
 	const selectWorkspaceProfileCommand = vscode.commands.registerCommand(
 		"profileSwitcher.selectProfile",
-		selectProfileForWorkspace,
+		() => selectProfileForWorkspace(scheduler),
 	);
 
 	const selectFolderProfileCommand = vscode.commands.registerCommand(
 		"profileSwitcher.selectProfileForFolder",
-		selectProfileForFolder,
+		(folderUri?: vscode.Uri) => selectProfileForFolder(scheduler, folderUri),
+	);
+
+	const removeFolderProfileCommand = vscode.commands.registerCommand(
+		"profileSwitcher.removeFolderProfile",
+		removeFolderProfile,
+	);
+
+	const clearWorkspaceProfileCommand = vscode.commands.registerCommand(
+		"profileSwitcher.clearWorkspaceProfile",
+		clearWorkspaceProfile,
+	);
+
+	const manageMappingsCommand = vscode.commands.registerCommand(
+		"profileSwitcher.manageMappings",
+		manageMappings,
+	);
+
+	const explainProfileCommand = vscode.commands.registerCommand(
+		"profileSwitcher.explainProfile",
+		explainProfile,
+	);
+
+	const migrateToConfigFileCommand = vscode.commands.registerCommand(
+		"profileSwitcher.migrateToConfigFile",
+		migrateToConfigFile,
+	);
+
+	// Remembered answers to the switch prompt (profileSwitcher.switchMode = "prompt")
+	const switchPrompt = new SwitchPrompt(context.workspaceState);
+
+	const manageSwitchChoicesCommand = vscode.commands.registerCommand(
+		"profileSwitcher.manageSwitchChoices",
+		() => manageSwitchChoices(switchPrompt),
+	);
+
+	const showUserDataPathCommand = vscode.commands.registerCommand(
+		"profileSwitcher.showUserDataPath",
+		showUserDataPath,
+	);
+
+	const switchBackCommand = vscode.commands.registerCommand("profileSwitcher.switchBack", () =>
+		switchBack(scheduler),
+	);
+
+	const showHistoryCommand = vscode.commands.registerCommand("profileSwitcher.showHistory", () =>
+		showSwitchHistory(scheduler),
 	);
 
 	context.subscriptions.push(selectWorkspaceProfileCommand);
 	context.subscriptions.push(selectFolderProfileCommand);
+	context.subscriptions.push(removeFolderProfileCommand);
+	context.subscriptions.push(clearWorkspaceProfileCommand);
+	context.subscriptions.push(manageMappingsCommand);
+	context.subscriptions.push(explainProfileCommand);
+	context.subscriptions.push(manageSwitchChoicesCommand);
+	context.subscriptions.push(migrateToConfigFileCommand);
+	context.subscriptions.push(showUserDataPathCommand);
+	context.subscriptions.push(switchBackCommand);
+	context.subscriptions.push(showHistoryCommand);
+
+	// List the mappings of every workspace folder in the Explorer
+	context.subscriptions.push(new ProfileMappingsTree(configuration));
 
-	// Apply profile on startup if auto-switch is enabled
-	const config = vscode.workspace.getConfiguration("profileSwitcher");
-	if (config.get<boolean>("autoSwitch", true)) {
-		applyProfileOnStartup();
-	}
-
-	// Watch for workspace folder changes
-	vscode.workspace.onDidChangeWorkspaceFolders(() => {
-		if (config.get<boolean>("autoSwitch", true)) {
-			applyProfileOnStartup();
-		}
-	});
-
-	// Watch for active editor changes to apply directory-specific profiles
-	vscode.window.onDidChangeActiveTextEditor(() => {
-		if (config.get<boolean>("autoSwitch", true)) {
-			applyProfileForActiveFile();
-		}
-	});
+	// Report drift between the running profile and .vscode/profile-manifest.json
+	context.subscriptions.push(new ProfileDriftChecker(context));
+
+	// Report stale or conflicting rules on the settings files defining them
+	context.subscriptions.push(new RuleDiagnostics(configuration));
+
+	// Show the expected profile for the active file in the status bar
+	context.subscriptions.push(new ProfileStatusBar(context, configuration, scheduler));
+
+	// Apply profile on startup if auto-switch is enabled, once config files are read
+	configuration.ready
+		.then(() => {
+			if (configuration.autoSwitch) {
+				return applyProfileOnStartup(scheduler);
+			}
+		})
+		.catch((error) => console.error("Applying the profile on startup failed:", error));
+
+	// Re-resolve when mappings change: new folders are handled like startup, any other
+	// change re-evaluates the active editor right away
+	context.subscriptions.push(
+		configuration.onDidChangeMappings((reason) => {
+			if (!configuration.autoSwitch) {
+				return;
+			}
+			if (reason === "workspaceFolders") {
+				applyProfileOnStartup(scheduler).catch((error) =>
+					console.error("Applying the profile for new workspace folders failed:", error),
+				);
+			} else {
+				scheduler.schedule(
+					() => applyProfileForActiveFile(scheduler, switchPrompt, "settingsChange"),
+					0,
+				);
+			}
+		}),
+	);
+
+	// Watch for active editor and notebook changes to apply file-specific profiles
+	// Changes are debounced so flipping through files only switches once
+	context.subscriptions.push(
+		configuration.onDidChangeActiveFile(() => {
+			if (configuration.autoSwitch) {
+				scheduler.schedule(() => applyProfileForActiveFile(scheduler, switchPrompt));
+			}
+		}),
+	);
 }
 
 export function deactivate() {}
-
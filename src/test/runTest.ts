@@ -0,0 +1,14 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Runs the unit tests in suite/ with Node's test runner. The modules they cover don't
+ * use the VS Code API, so no editor is started.
+ */
+const suiteFolder = path.join(__dirname, "suite");
+
+for (const file of fs.readdirSync(suiteFolder).sort()) {
+	if (file.endsWith(".test.js")) {
+		require(path.join(suiteFolder, file));
+	}
+}
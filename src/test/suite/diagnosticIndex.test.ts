@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import * as assert from "assert";
+import { DiagnosticIndex, type IndexedDiagnostic } from "../../utils/diagnosticIndex";
+
+const SETTINGS = "file:///ws/.vscode/settings.json";
+
+function diagnostic(code: IndexedDiagnostic["code"], line: number): IndexedDiagnostic {
+	return {
+		code,
+		range: { start: { line, character: 4 }, end: { line, character: 14 } },
+	};
+}
+
+describe("DiagnosticIndex", () => {
+	it("finds a value by a copy of the reported diagnostic", () => {
+		const index = new DiagnosticIndex<string>();
+		const reported = diagnostic("missingPath", 3);
+		index.set(SETTINGS, reported, "backend/");
+
+		// Code actions get equal diagnostics, not the reported objects
+		assert.strictEqual(index.get(SETTINGS, structuredClone(reported)), "backend/");
+	});
+
+	it("tells diagnostics apart by document, code and range", () => {
+		const index = new DiagnosticIndex<string>();
+		index.set(SETTINGS, diagnostic("missingPath", 3), "backend/");
+		index.set(SETTINGS, diagnostic("missingPath", 4), "frontend/");
+		index.set(SETTINGS, diagnostic("unknownProfile", 3), "Python");
+
+		assert.strictEqual(index.get(SETTINGS, diagnostic("missingPath", 4)), "frontend/");
+		assert.strictEqual(index.get(SETTINGS, diagnostic("unknownProfile", 3)), "Python");
+		assert.strictEqual(index.get(SETTINGS, diagnostic("duplicate", 3)), undefined);
+		assert.strictEqual(
+			index.get("file:///other/.vscode/settings.json", diagnostic("missingPath", 3)),
+			undefined,
+		);
+	});
+
+	it("accepts codes written as objects", () => {
+		const index = new DiagnosticIndex<string>();
+		index.set(SETTINGS, diagnostic({ value: "overlap" }, 1), "packages/*/");
+
+		assert.strictEqual(index.get(SETTINGS, diagnostic("overlap", 1)), "packages/*/");
+	});
+});
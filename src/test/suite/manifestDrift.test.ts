@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import * as assert from "assert";
+import { computeDrift, driftKey } from "../../utils/manifestDrift";
+
+describe("computeDrift", () => {
+	it("reports nothing when the profile matches its entry", () => {
+		const drift = computeDrift(
+			"python",
+			{
+				extensions: ["ms-python.python"],
+				settings: { "editor.formatOnSave": true, "files.exclude": { "**/.venv": true } },
+			},
+			["MS-Python.Python", "eamodio.gitlens"],
+			{ "editor.formatOnSave": true, "files.exclude": { "**/.venv": true } },
+		);
+		assert.deepStrictEqual(drift, []);
+	});
+
+	it("reports missing extensions, ignoring case", () => {
+		const drift = computeDrift(
+			"python",
+			{ extensions: ["ms-python.python", "charliermarsh.ruff"] },
+			["MS-PYTHON.python"],
+			{},
+		);
+		assert.deepStrictEqual(drift, [
+			{ kind: "missingExtension", profile: "python", key: "charliermarsh.ruff" },
+		]);
+	});
+
+	it("reports extra extensions only when the entry asks for it", () => {
+		const installed = ["ms-python.python", "eamodio.gitlens"];
+
+		assert.deepStrictEqual(
+			computeDrift("python", { extensions: ["ms-python.python"] }, installed, {}),
+			[],
+		);
+		assert.deepStrictEqual(
+			computeDrift(
+				"python",
+				{ extensions: ["ms-python.python"], reportExtraExtensions: true },
+				installed,
+				{},
+			),
+			[{ kind: "extraExtension", profile: "python", key: "eamodio.gitlens" }],
+		);
+	});
+
+	it("compares settings deeply and reports unset ones", () => {
+		const drift = computeDrift(
+			"python",
+			{
+				settings: {
+					"editor.rulers": [80, 100],
+					"files.exclude": { "**/.venv": true },
+					"editor.formatOnSave": true,
+				},
+			},
+			[],
+			{ "editor.rulers": [80, 120], "files.exclude": { "**/.venv": true, "**/dist": true } },
+		);
+		assert.deepStrictEqual(drift, [
+			{
+				kind: "settingMismatch",
+				profile: "python",
+				key: "editor.rulers",
+				expected: [80, 100],
+				actual: [80, 120],
+			},
+			{
+				kind: "settingMismatch",
+				profile: "python",
+				key: "files.exclude",
+				expected: { "**/.venv": true },
+				actual: { "**/.venv": true, "**/dist": true },
+			},
+			{
+				kind: "settingMismatch",
+				profile: "python",
+				key: "editor.formatOnSave",
+				expected: true,
+				actual: undefined,
+			},
+		]);
+	});
+
+	it("doesn't take an object for an array with the same keys", () => {
+		const drift = computeDrift("python", { settings: { list: ["a"] } }, [], { list: { 0: "a" } });
+		assert.strictEqual(drift.length, 1);
+	});
+});
+
+describe("driftKey", () => {
+	it("identifies an item by profile, kind and key, not by its values", () => {
+		assert.strictEqual(
+			driftKey({ kind: "settingMismatch", profile: "python", key: "a", expected: 1, actual: 2 }),
+			driftKey({ kind: "settingMismatch", profile: "python", key: "a", expected: 1, actual: 3 }),
+		);
+		assert.notStrictEqual(
+			driftKey({ kind: "missingExtension", profile: "python", key: "a" }),
+			driftKey({ kind: "missingExtension", profile: "web", key: "a" }),
+		);
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import * as assert from "assert";
+import {
+	compilePattern,
+	isGlobPattern,
+	matchFilePattern,
+	matchPattern,
+	normalizeRelativePath,
+} from "../../utils/pathMatcher";
+
+describe("normalizeRelativePath", () => {
+	it("uses forward slashes without leading ./ or trailing /", () => {
+		assert.strictEqual(normalizeRelativePath(".\\backend\\api\\"), "backend/api");
+		assert.strictEqual(normalizeRelativePath("/src/"), "src");
+	});
+});
+
+describe("isGlobPattern", () => {
+	it("detects glob syntax and negation", () => {
+		assert.strictEqual(isGlobPattern("backend/"), false);
+		assert.strictEqual(isGlobPattern("packages/*/api/"), true);
+		assert.strictEqual(isGlobPattern("!legacy/"), true);
+	});
+});
+
+describe("matchPattern", () => {
+	it("anchors a plain path at its folder", () => {
+		assert.strictEqual(matchPattern(compilePattern("backend/"), "backend/src/app.py"), 1);
+		assert.strictEqual(matchPattern(compilePattern("backend"), "backend/app.py"), 1);
+		assert.strictEqual(matchPattern(compilePattern("backend/"), "backend2/app.py"), undefined);
+	});
+
+	it("matches * within one segment", () => {
+		const pattern = compilePattern("packages/*/api/");
+		assert.strictEqual(matchPattern(pattern, "packages/web/api/routes.ts"), 3);
+		assert.strictEqual(matchPattern(pattern, "packages/web/ui/api/routes.ts"), undefined);
+	});
+
+	it("lets **/ match any number of segments, including none", () => {
+		const pattern = compilePattern("**/tests/");
+		assert.strictEqual(matchPattern(pattern, "tests/a.ts"), 1);
+		assert.strictEqual(matchPattern(pattern, "packages/web/tests/a.ts"), 3);
+	});
+
+	it("anchors a trailing /** at its base folder", () => {
+		const pattern = compilePattern("packages/**");
+		assert.strictEqual(matchPattern(pattern, "packages/x/y.ts"), 1);
+		assert.strictEqual(matchPattern(pattern, "packagesx/y.ts"), undefined);
+	});
+
+	it("matches the file itself for file globs", () => {
+		assert.strictEqual(matchPattern(compilePattern("**/*.ipynb"), "notebooks/a/b.ipynb"), 3);
+	});
+
+	it("supports braces and character sets", () => {
+		assert.strictEqual(matchPattern(compilePattern("{apps,libs}/"), "libs/x.ts"), 1);
+		assert.strictEqual(matchPattern(compilePattern("v[!0]/"), "v1/x.ts"), 1);
+		assert.strictEqual(matchPattern(compilePattern("v[!0]/"), "v0/x.ts"), undefined);
+	});
+
+	it("compiles negated keys without the !", () => {
+		const pattern = compilePattern("!legacy/");
+		assert.strictEqual(pattern.negated, true);
+		assert.strictEqual(matchPattern(pattern, "legacy/old.ts"), 1);
+	});
+});
+
+describe("matchFilePattern", () => {
+	it("matches a pattern without / against the file name in any folder", () => {
+		assert.strictEqual(matchFilePattern(compilePattern("*.tex"), "docs/paper.tex"), 2);
+	});
+
+	it("doesn't match parent folders", () => {
+		assert.strictEqual(matchFilePattern(compilePattern("docs/*"), "docs/a/b.md"), undefined);
+		assert.strictEqual(matchFilePattern(compilePattern("docs/*"), "docs/b.md"), 2);
+	});
+});
@@ -0,0 +1,230 @@
+import { describe, it } from "node:test";
+import * as assert from "assert";
+import {
+	type ProfileRule,
+	packageRule,
+	type RuleSettings,
+	resolveProfile,
+	rulesFromSettings,
+} from "../../utils/profileResolver";
+
+function folderRules(settings: RuleSettings): ProfileRule[] {
+	return rulesFromSettings(
+		{ scope: "workspaceFolder", file: "/ws/.vscode/settings.json" },
+		settings,
+	);
+}
+
+function outcomeOf(decision: ReturnType<typeof resolveProfile>, pattern: string | undefined) {
+	return decision.evaluations.find((evaluation) => evaluation.rule.pattern === pattern)?.outcome;
+}
+
+describe("resolveProfile", () => {
+	describe("precedence", () => {
+		it("falls back to the workspace profile", () => {
+			const rules = folderRules({
+				workspaceProfile: "Default",
+				directoryProfiles: { "backend/": "Python" },
+			});
+
+			const decision = resolveProfile("docs/readme.md", rules);
+			assert.strictEqual(decision.profile, "Default");
+			assert.strictEqual(decision.rule?.kind, "workspace");
+			assert.strictEqual(outcomeOf(decision, "backend/"), "noMatch");
+		});
+
+		it("returns no profile when no rule applies", () => {
+			assert.strictEqual(resolveProfile("a.ts", []).profile, undefined);
+		});
+
+		it("ranks language, file pattern, directory, remote and workspace rules in that order", () => {
+			const rules = folderRules({
+				workspaceProfile: "Workspace",
+				directoryProfiles: { "src/": "Directory" },
+				filePatternProfiles: { "*.md": "FilePattern" },
+				languageProfiles: { markdown: "Language" },
+				remoteProfiles: { wsl: "Remote" },
+			});
+			const context = { remoteAuthority: "wsl+Ubuntu" };
+
+			assert.strictEqual(
+				resolveProfile("src/a.md", rules, { ...context, languageId: "markdown" }).profile,
+				"Language",
+			);
+			assert.strictEqual(resolveProfile("src/a.md", rules, context).profile, "FilePattern");
+			assert.strictEqual(resolveProfile("src/a.ts", rules, context).profile, "Directory");
+			assert.strictEqual(resolveProfile("lib/a.ts", rules, context).profile, "Remote");
+			assert.strictEqual(resolveProfile("lib/a.ts", rules).profile, "Workspace");
+		});
+
+		it("prefers a full remote authority over a remote name", () => {
+			const rules = folderRules({
+				remoteProfiles: { "ssh-remote": "Any", "ssh-remote+build-box": "Box" },
+			});
+
+			assert.strictEqual(
+				resolveProfile("a.ts", rules, { remoteAuthority: "ssh-remote+build-box" }).profile,
+				"Box",
+			);
+			assert.strictEqual(
+				resolveProfile("a.ts", rules, { remoteAuthority: "ssh-remote+other" }).profile,
+				"Any",
+			);
+		});
+
+		it("lets the narrower scope win for the same key", () => {
+			const rules = [
+				...rulesFromSettings({ scope: "user" }, { directoryProfiles: { "src/": "User" } }),
+				...rulesFromSettings({ scope: "personal" }, { directoryProfiles: { "src/": "Personal" } }),
+				...folderRules({ directoryProfiles: { "src/": "Folder" } }),
+			];
+
+			const decision = resolveProfile("src/a.ts", rules);
+			assert.strictEqual(decision.profile, "Personal");
+			assert.deepStrictEqual(
+				decision.evaluations.map((evaluation) => [evaluation.rule.source.scope, evaluation.outcome]),
+				[
+					["personal", "selected"],
+					["workspaceFolder", "shadowed"],
+					["user", "shadowed"],
+				],
+			);
+		});
+
+		it("ignores disabled rules", () => {
+			const rules = folderRules({
+				workspaceProfile: "Default",
+				directoryProfiles: { "src/": { profile: "Off", enabled: false } },
+			});
+
+			const decision = resolveProfile("src/a.ts", rules);
+			assert.strictEqual(decision.profile, "Default");
+			assert.strictEqual(outcomeOf(decision, "src/"), "disabled");
+		});
+
+		it("skips rules whose conditions don't hold without shadowing wider scopes", () => {
+			const rules = [
+				...rulesFromSettings(
+					{ scope: "personal" },
+					{
+						directoryProfiles: { "src/": { profile: "Review", when: { branch: "review/*" } } },
+					},
+				),
+				...folderRules({ directoryProfiles: { "src/": "Team" } }),
+			];
+
+			assert.strictEqual(resolveProfile("src/a.ts", rules, { branch: "review/x" }).profile, "Review");
+			const decision = resolveProfile("src/a.ts", rules, { branch: "main" });
+			assert.strictEqual(decision.profile, "Team");
+			assert.strictEqual(decision.evaluations[0].outcome, "inactive");
+		});
+
+		it("treats malformed conditions as unmet", () => {
+			const rules = folderRules({
+				workspaceProfile: "Default",
+				directoryProfiles: { "src/": { profile: "Weekdays", when: { days: "mon" } as never } },
+			});
+
+			assert.strictEqual(resolveProfile("src/a.ts", rules).profile, "Default");
+		});
+	});
+
+	describe("glob depth", () => {
+		it("lets the rule anchored deepest win", () => {
+			const rules = folderRules({
+				directoryProfiles: { "packages/": "Packages", "packages/web/": "Web" },
+			});
+
+			const decision = resolveProfile("packages/web/src/a.ts", rules);
+			assert.strictEqual(decision.profile, "Web");
+			assert.strictEqual(outcomeOf(decision, "packages/"), "outranked");
+		});
+
+		it("anchors a glob at the shallowest path it matches", () => {
+			const rules = folderRules({
+				directoryProfiles: { "packages/**": "Glob", "packages/web/": "Web" },
+			});
+
+			assert.strictEqual(resolveProfile("packages/web/a.ts", rules).profile, "Web");
+			assert.strictEqual(resolveProfile("packages/api/a.ts", rules).profile, "Glob");
+		});
+
+		it("counts packages/** as packages/, where the plain path wins", () => {
+			const rules = folderRules({
+				directoryProfiles: { "packages/**": "Glob", "packages/": "Plain" },
+			});
+
+			assert.strictEqual(resolveProfile("packages/x/y.ts", rules).profile, "Plain");
+		});
+
+		it("lets a glob matching the file beat its folders", () => {
+			const rules = folderRules({
+				directoryProfiles: { "notebooks/": "Notes", "**/*.ipynb": "Data" },
+			});
+
+			assert.strictEqual(resolveProfile("notebooks/a.ipynb", rules).profile, "Data");
+			assert.strictEqual(resolveProfile("notebooks/a.py", rules).profile, "Notes");
+		});
+
+		it("breaks ties between globs by literal length, then declaration order", () => {
+			const rules = folderRules({
+				directoryProfiles: { "*/api/": "Short", "pkg*/api/": "Long", "*/ap?/": "Later" },
+			});
+
+			assert.strictEqual(resolveProfile("pkg1/api/a.ts", rules).profile, "Long");
+			assert.strictEqual(resolveProfile("lib/api/a.ts", rules).profile, "Short");
+		});
+
+		it("lets the nearest package config win, and beat a key at the same depth", () => {
+			const rules = [
+				...folderRules({ directoryProfiles: { "packages/web/": "Key" } }),
+				packageRule("packages/web", "Package", { scope: "workspaceFolder" }),
+				packageRule("", "Root", { scope: "workspaceFolder" }),
+			].filter((rule): rule is ProfileRule => rule !== undefined);
+
+			assert.strictEqual(resolveProfile("packages/web/a.ts", rules).profile, "Package");
+			assert.strictEqual(resolveProfile("packages/api/a.ts", rules).profile, "Root");
+		});
+	});
+
+	describe("negation", () => {
+		it("excludes a path from rules mapped to the same profile", () => {
+			const rules = folderRules({
+				workspaceProfile: "Default",
+				directoryProfiles: { "notebooks/": "Data", "!notebooks/legacy/": "Data" },
+			});
+
+			assert.strictEqual(resolveProfile("notebooks/new.ipynb", rules).profile, "Data");
+			const decision = resolveProfile("notebooks/legacy/old.ipynb", rules);
+			assert.strictEqual(decision.profile, "Default");
+			assert.strictEqual(outcomeOf(decision, "notebooks/"), "excluded");
+			assert.strictEqual(outcomeOf(decision, "!notebooks/legacy/"), "negation");
+		});
+
+		it("leaves rules mapped to other profiles alone", () => {
+			const rules = folderRules({
+				directoryProfiles: { "notebooks/": "Data", "!notebooks/legacy/": "Other" },
+			});
+
+			assert.strictEqual(resolveProfile("notebooks/legacy/old.ipynb", rules).profile, "Data");
+		});
+
+		it("lets the next matching rule apply to an excluded path", () => {
+			const rules = folderRules({
+				directoryProfiles: { "src/": "Web", "src/tools/": "Data", "!src/tools/legacy/": "Data" },
+			});
+
+			assert.strictEqual(resolveProfile("src/tools/legacy/a.py", rules).profile, "Web");
+		});
+
+		it("applies to file pattern rules", () => {
+			const rules = folderRules({
+				workspaceProfile: "Default",
+				filePatternProfiles: { "*.tex": "Writing", "!drafts/*.tex": "Writing" },
+			});
+
+			assert.strictEqual(resolveProfile("paper.tex", rules).profile, "Writing");
+			assert.strictEqual(resolveProfile("drafts/paper.tex", rules).profile, "Default");
+		});
+	});
+});
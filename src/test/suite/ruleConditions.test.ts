@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import * as assert from "assert";
+import {
+	checkConditions,
+	findInvalidConditions,
+	hasTimeConditions,
+	type RuleConditions,
+} from "../../utils/ruleConditions";
+
+/** Wednesday, 10:30 local time */
+const WEDNESDAY_MORNING = new Date(2026, 0, 7, 10, 30);
+
+describe("checkConditions", () => {
+	it("holds when every condition holds", () => {
+		const conditions: RuleConditions = {
+			days: ["mon", "wed"],
+			time: "09:00-17:30",
+			branch: "review/*",
+			env: { CI: false, TEAM: "web" },
+			remoteName: "WSL",
+		};
+
+		assert.strictEqual(
+			checkConditions(conditions, {
+				now: WEDNESDAY_MORNING,
+				branch: "review/login",
+				env: { TEAM: "web" },
+				remoteName: "wsl",
+			}),
+			undefined,
+		);
+	});
+
+	it("reports the day outside of the listed days", () => {
+		assert.match(
+			checkConditions({ days: ["sat", "sun"] }, { now: WEDNESDAY_MORNING }) ?? "",
+			/today is wed/,
+		);
+	});
+
+	it("checks time windows, including windows spanning midnight", () => {
+		const at = (hours: number, minutes = 0) => ({ now: new Date(2026, 0, 7, hours, minutes) });
+
+		assert.strictEqual(checkConditions({ time: "09:00-17:30" }, at(17, 29)), undefined);
+		assert.match(checkConditions({ time: "09:00-17:30" }, at(17, 30)) ?? "", /it is 17:30/);
+		assert.strictEqual(checkConditions({ time: "22:00-06:00" }, at(23)), undefined);
+		assert.strictEqual(checkConditions({ time: "22:00-06:00" }, at(5, 59)), undefined);
+		assert.notStrictEqual(checkConditions({ time: "22:00-06:00" }, at(12)), undefined);
+		assert.strictEqual(checkConditions({ time: "18:00-24:00" }, at(23, 59)), undefined);
+	});
+
+	it("matches the branch as a glob, with ! negating it", () => {
+		assert.strictEqual(checkConditions({ branch: "main" }, { branch: "main" }), undefined);
+		assert.notStrictEqual(checkConditions({ branch: "main" }, { branch: "dev" }), undefined);
+		assert.strictEqual(checkConditions({ branch: "!main" }, { branch: "dev" }), undefined);
+		assert.match(checkConditions({ branch: "main" }, {}) ?? "", /no branch is checked out/);
+	});
+
+	it("checks environment variables by value, or by being set", () => {
+		const env = { CI: "true", EMPTY: "" };
+
+		assert.strictEqual(checkConditions({ env: { CI: true } }, { env }), undefined);
+		assert.strictEqual(checkConditions({ env: { EMPTY: false } }, { env }), undefined);
+		assert.match(checkConditions({ env: { CI: false } }, { env }) ?? "", /CI is not set/);
+		assert.match(checkConditions({ env: { CI: "1" } }, { env }) ?? "", /CI is "1"/);
+	});
+
+	it("treats a window without a remote as local", () => {
+		assert.strictEqual(checkConditions({ remoteName: "local" }, {}), undefined);
+		assert.notStrictEqual(checkConditions({ remoteName: "local" }, { remoteName: "wsl" }), undefined);
+	});
+
+	it("treats malformed conditions as unmet instead of throwing", () => {
+		const malformed = { days: "mon", env: "CI" } as unknown as RuleConditions;
+
+		assert.match(checkConditions(malformed, { now: WEDNESDAY_MORNING }) ?? "", /^Invalid condition/);
+	});
+});
+
+describe("findInvalidConditions", () => {
+	it("accepts well-formed conditions", () => {
+		assert.deepStrictEqual(
+			findInvalidConditions({ days: ["fri"], time: "8:00 - 24:00", env: { CI: true } }),
+			[],
+		);
+	});
+
+	it("rejects times that don't exist", () => {
+		for (const time of ["24:30-08:00", "09:00-25:00", "09:60-10:00", "9-17"]) {
+			assert.strictEqual(findInvalidConditions({ time }).length, 1, time);
+		}
+	});
+
+	it("reports each value of the wrong type", () => {
+		assert.strictEqual(findInvalidConditions("main").length, 1);
+		assert.strictEqual(
+			findInvalidConditions({
+				days: ["mon", "someday", 3],
+				time: 9,
+				branch: ["main"],
+				env: { CI: 1 },
+				remoteName: true,
+			}).length,
+			6,
+		);
+	});
+});
+
+describe("hasTimeConditions", () => {
+	it("is true for days and time windows only", () => {
+		assert.strictEqual(hasTimeConditions({ days: ["mon"] }), true);
+		assert.strictEqual(hasTimeConditions({ time: "09:00-17:00" }), true);
+		assert.strictEqual(hasTimeConditions({ branch: "main" }), false);
+		assert.strictEqual(hasTimeConditions("main" as unknown as RuleConditions), false);
+	});
+});
@@ -0,0 +1,151 @@
+import { describe, it } from "node:test";
+import * as assert from "assert";
+import { type RuleSettings, rulesFromSettings } from "../../utils/profileResolver";
+import {
+	findClosestMatch,
+	type RuleFileSystem,
+	type RuleFileType,
+	type RuleProblem,
+	validateRules,
+} from "../../utils/ruleValidation";
+
+const WORKSPACE = "/ws";
+
+/**
+ * A workspace folder holding the given paths, relative to it; folders end with /
+ */
+function fileSystemOf(paths: string[]): RuleFileSystem {
+	const types = new Map<string, RuleFileType>();
+	for (const entry of paths) {
+		const segments = entry.replace(/\/$/, "").split("/");
+		segments.forEach((_, index) => {
+			const isLast = index === segments.length - 1;
+			types.set(
+				segments.slice(0, index + 1).join("/"),
+				isLast && !entry.endsWith("/") ? "file" : "directory",
+			);
+		});
+	}
+
+	return {
+		stat: async (relativePath) => types.get(relativePath.replace(/^\/+/, "")),
+		statAbsolute: async (absolutePath) =>
+			absolutePath.startsWith(`${WORKSPACE}/`)
+				? types.get(absolutePath.slice(WORKSPACE.length + 1))
+				: undefined,
+		readDirectory: async (relativePath) =>
+			[...types.keys()]
+				.filter((key) => {
+					const parent = key.includes("/") ? key.slice(0, key.lastIndexOf("/")) : "";
+					return parent === relativePath;
+				})
+				.map((key) => key.slice(key.lastIndexOf("/") + 1)),
+	};
+}
+
+const FILE_SYSTEM = fileSystemOf(["backend/", "frontend/src/", "docs/readme.md"]);
+
+function validate(settings: RuleSettings, profileNames?: string[]): Promise<RuleProblem[]> {
+	const rules = rulesFromSettings(
+		{ scope: "workspaceFolder", file: `${WORKSPACE}/.vscode/settings.json` },
+		settings,
+	);
+	return validateRules(WORKSPACE, FILE_SYSTEM, rules, profileNames);
+}
+
+function summarize(problems: RuleProblem[]) {
+	return problems.map(({ kind, rule, suggestion }) => ({
+		kind,
+		pattern: rule.pattern,
+		suggestion,
+	}));
+}
+
+describe("validateRules", () => {
+	it("accepts rules that match the workspace", async () => {
+		const problems = await validate(
+			{
+				workspaceProfile: "Default",
+				directoryProfiles: { "backend/": "Python", "frontend/src/": "Web", "packages/*/": "Web" },
+			},
+			["Default", "Python", "Web"],
+		);
+		assert.deepStrictEqual(problems, []);
+	});
+
+	it("suggests the closest existing folder for a missing directory key", async () => {
+		const problems = await validate({ directoryProfiles: { "frontend/scr/": "Web" } });
+		assert.deepStrictEqual(summarize(problems), [
+			{ kind: "missingPath", pattern: "frontend/scr/", suggestion: "frontend/src/" },
+		]);
+	});
+
+	it("checks trailing slashes against the type of the path", async () => {
+		const problems = await validate({
+			directoryProfiles: { backend: "Python", "docs/readme.md/": "Docs" },
+		});
+		assert.deepStrictEqual(summarize(problems), [
+			{ kind: "missingTrailingSlash", pattern: "backend", suggestion: "backend/" },
+			{ kind: "fileWithTrailingSlash", pattern: "docs/readme.md/", suggestion: "docs/readme.md" },
+		]);
+	});
+
+	it("suggests a relative key for an absolute path inside the workspace folder", async () => {
+		const problems = await validate({
+			directoryProfiles: { "/ws/backend/": "Python", "C:\\other\\": "Python" },
+		});
+		assert.deepStrictEqual(summarize(problems), [
+			{ kind: "absolutePath", pattern: "/ws/backend/", suggestion: "backend/" },
+			{ kind: "absolutePath", pattern: "C:\\other\\", suggestion: undefined },
+		]);
+	});
+
+	it("reports unknown profiles only when the profile names are known", async () => {
+		const settings = { workspaceProfile: "pyhton" };
+
+		assert.deepStrictEqual(summarize(await validate(settings, ["Default", "Python"])), [
+			{ kind: "unknownProfile", pattern: undefined, suggestion: "Python" },
+		]);
+		assert.deepStrictEqual(await validate(settings), []);
+	});
+
+	it("reports keys naming the same directory as duplicates", async () => {
+		const problems = await validate({
+			directoryProfiles: { "backend/": "Python", "./backend/": "Web" },
+		});
+		assert.deepStrictEqual(
+			summarize(problems).map(({ kind, pattern }) => ({ kind, pattern })),
+			[{ kind: "duplicate", pattern: "./backend/" }],
+		);
+	});
+
+	it("reports globs covering a plain key mapped to another profile", async () => {
+		const problems = await validate({
+			directoryProfiles: { "*/": "Web", "backend/": "Python" },
+		});
+		assert.deepStrictEqual(summarize(problems), [
+			{ kind: "overlap", pattern: "*/", suggestion: undefined },
+		]);
+	});
+
+	it("reports malformed when conditions", async () => {
+		const problems = await validate({
+			languageProfiles: { python: { profile: "Python", when: { time: "24:30-08:00" } } },
+		});
+		assert.deepStrictEqual(
+			problems.map(({ kind, severity }) => ({ kind, severity })),
+			[{ kind: "invalidCondition", severity: "error" }],
+		);
+	});
+});
+
+describe("findClosestMatch", () => {
+	it("prefers a case-insensitive match, then the smallest edit distance", () => {
+		assert.strictEqual(findClosestMatch("python", ["Python", "pythn"]), "Python");
+		assert.strictEqual(findClosestMatch("backedn", ["frontend", "backend"]), "backend");
+	});
+
+	it("gives up when nothing is close", () => {
+		assert.strictEqual(findClosestMatch("rust", ["Python", "Web"]), undefined);
+	});
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, it } from "node:test";
+import * as assert from "assert";
+import type * as vscode from "vscode";
+import {
+	getProfileBeforeFileRules,
+	initializeSwitchHistory,
+	recordSwitch,
+	type SwitchHistoryEntry,
+} from "../../utils/switchHistory";
+
+/**
+ * A global state kept in memory
+ */
+function memento(): vscode.Memento {
+	const values = new Map<string, unknown>();
+	return {
+		keys: () => [...values.keys()],
+		get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue),
+		update: async (key: string, value: unknown) => {
+			values.set(key, value);
+		},
+	} as vscode.Memento;
+}
+
+const WORKSPACE = { toString: () => "file:///ws" } as vscode.Uri;
+const OTHER_WORKSPACE = { toString: () => "file:///other" } as vscode.Uri;
+
+/**
+ * Records switches in the given order, i.e. the last one is the newest
+ */
+async function record(...entries: Omit<SwitchHistoryEntry, "timestamp">[]): Promise<void> {
+	for (const entry of entries) {
+		await recordSwitch({ workspace: WORKSPACE.toString(), ...entry });
+	}
+}
+
+describe("getProfileBeforeFileRules", () => {
+	beforeEach(() => {
+		initializeSwitchHistory(memento());
+	});
+
+	it("returns the profile the last file rule switch left", async () => {
+		await record(
+			{ profile: "Default", trigger: "startup", ruleKind: "workspace" },
+			{ profile: "Python", previous: "Default", trigger: "editorChange", ruleKind: "directory" },
+		);
+		assert.strictEqual(getProfileBeforeFileRules(WORKSPACE), "Default");
+	});
+
+	it("goes back past consecutive file rule switches", async () => {
+		await record(
+			{ profile: "Python", previous: "Default", trigger: "editorChange", ruleKind: "directory" },
+			{ profile: "Web", previous: "Python", trigger: "editorChange", ruleKind: "language" },
+			{ profile: "Docs", previous: "Web", trigger: "settingsChange", ruleKind: "filePattern" },
+		);
+		assert.strictEqual(getProfileBeforeFileRules(WORKSPACE), "Default");
+	});
+
+	it("returns nothing when the last switch wasn't made for a file rule", async () => {
+		await record(
+			{ profile: "Python", previous: "Default", trigger: "editorChange", ruleKind: "directory" },
+			{ profile: "Web", previous: "Python", trigger: "command" },
+		);
+		assert.strictEqual(getProfileBeforeFileRules(WORKSPACE), undefined);
+
+		await record({ profile: "Python", previous: "Web", trigger: "editorChange", ruleKind: "remote" });
+		assert.strictEqual(getProfileBeforeFileRules(WORKSPACE), undefined);
+	});
+
+	it("only looks at switches made in the workspace", async () => {
+		await record({
+			profile: "Python",
+			previous: "Default",
+			trigger: "editorChange",
+			ruleKind: "directory",
+		});
+		assert.strictEqual(getProfileBeforeFileRules(OTHER_WORKSPACE), undefined);
+		assert.strictEqual(getProfileBeforeFileRules(undefined), undefined);
+	});
+});
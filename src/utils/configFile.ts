@@ -0,0 +1,144 @@
+import * as vscode from "vscode";
+import { readSettingsFile, SettingsFileError } from "./jsoncSettings";
+import type { RuleSettings, RuleValue } from "./profileResolver";
+import { isFile, toFileName } from "./workspaceFs";
+
+/**
+ * Standalone profile switcher config file, kept next to settings.json so profile
+ * routing doesn't add noise to the settings that drive editor behavior.
+ *
+ * The first existing name wins; migration writes the first one.
+ */
+export const CONFIG_FILE_NAMES = ["profile-switcher.json", "profiles.json"] as const;
+
+/** Current version of the config file format, see schemas/profile-switcher.schema.json */
+export const CONFIG_FILE_VERSION = 1;
+
+export interface ProfileSwitcherConfigFile extends RuleSettings {
+	$schema?: string;
+	version: number;
+}
+
+export interface LoadedConfigFile {
+	/** The file, named as in rule sources (see workspaceFs.ts) */
+	file: string;
+	config: ProfileSwitcherConfigFile;
+}
+
+/**
+ * Config file of each workspace folder that was loaded, by folder URI; null when the
+ * folder has none. Rules are resolved synchronously, so files are read ahead of time
+ * by loadConfigFile (see configurationService.ts).
+ */
+const cache = new Map<string, LoadedConfigFile | null>();
+
+/**
+ * Gets the URI the config file of a workspace folder is (or would be) written to
+ */
+export function getConfigFileUri(folderUri: vscode.Uri): vscode.Uri {
+	return vscode.Uri.joinPath(folderUri, ".vscode", CONFIG_FILE_NAMES[0]);
+}
+
+/**
+ * Finds the config file of a workspace folder
+ * Returns undefined if the folder has none
+ */
+export async function findConfigFile(folderUri: vscode.Uri): Promise<vscode.Uri | undefined> {
+	for (const name of CONFIG_FILE_NAMES) {
+		const file = vscode.Uri.joinPath(folderUri, ".vscode", name);
+		if (await isFile(file)) {
+			return file;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Reads and validates a config file
+ * Throws SettingsFileError if the file can't be parsed or has an unsupported version.
+ */
+export async function readConfigFile(file: vscode.Uri): Promise<ProfileSwitcherConfigFile> {
+	const content = await readSettingsFile(file);
+	const version = content.version ?? CONFIG_FILE_VERSION;
+	if (typeof version !== "number" || version > CONFIG_FILE_VERSION) {
+		throw new SettingsFileError(
+			toFileName(file),
+			`version ${String(version)} is not supported (expected ${CONFIG_FILE_VERSION} or lower)`,
+		);
+	}
+
+	return {
+		version,
+		workspaceProfile: asRuleValue(content.workspaceProfile),
+		directoryProfiles: asRuleMap(content.directoryProfiles),
+		filePatternProfiles: asRuleMap(content.filePatternProfiles),
+		languageProfiles: asRuleMap(content.languageProfiles),
+		remoteProfiles: asRuleMap(content.remoteProfiles),
+	};
+}
+
+/**
+ * (Re)reads the config file of a workspace folder into the cache getConfigFileSettings reads
+ * Errors are logged and treated as an empty config so a broken file never blocks switching
+ */
+export async function loadConfigFile(folderUri: vscode.Uri): Promise<void> {
+	let loaded: LoadedConfigFile | null = null;
+
+	const file = await findConfigFile(folderUri);
+	if (file) {
+		try {
+			loaded = { file: toFileName(file), config: await readConfigFile(file) };
+		} catch (error) {
+			console.error(`Error reading profile switcher config file ${toFileName(file)}:`, error);
+		}
+	}
+
+	cache.set(folderUri.toString(), loaded);
+}
+
+/**
+ * Forgets the config file of a workspace folder that was removed
+ */
+export function unloadConfigFile(folderUri: vscode.Uri): void {
+	cache.delete(folderUri.toString());
+}
+
+/**
+ * Gets the config file of a workspace folder, as last loaded by loadConfigFile
+ * Returns undefined if the folder has none (or it wasn't loaded yet)
+ */
+export function getConfigFileSettings(folderUri: vscode.Uri): LoadedConfigFile | undefined {
+	return cache.get(folderUri.toString()) ?? undefined;
+}
+
+/**
+ * Accepts a profile name or a rule object with a profile; anything else is ignored
+ */
+export function asRuleValue(value: unknown): RuleValue | undefined {
+	if (typeof value === "string") {
+		return value;
+	}
+	if (
+		value &&
+		typeof value === "object" &&
+		typeof (value as { profile?: unknown }).profile === "string"
+	) {
+		return value as RuleValue;
+	}
+	return undefined;
+}
+
+function asRuleMap(value: unknown): Record<string, RuleValue> | undefined {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return undefined;
+	}
+
+	const rules: Record<string, RuleValue> = {};
+	for (const [key, ruleValue] of Object.entries(value)) {
+		const rule = asRuleValue(ruleValue);
+		if (rule !== undefined) {
+			rules[key] = rule;
+		}
+	}
+	return rules;
+}
@@ -0,0 +1,161 @@
+import * as vscode from "vscode";
+import {
+	CONFIG_FILE_NAMES,
+	getConfigFileSettings,
+	loadConfigFile,
+	unloadConfigFile,
+} from "./configFile";
+import { onDidChangeGitBranch, watchGitBranches } from "./gitBranch";
+import { onDidChangePackageConfigs, watchPackageConfigs } from "./packageConfig";
+import { onDidChangePersonalMappings } from "./personalMappings";
+import { createDefaultStorageReader, getProfileRegistry } from "./profileRegistry";
+import { collectProfileRules } from "./profileRules";
+import { checkConditions, hasTimeConditions, type RuleConditions } from "./ruleConditions";
+
+/** How often rules with day or time conditions are re-checked */
+const CLOCK_INTERVAL_MS = 60_000;
+
+/** What made the profile mappings change */
+export type MappingChangeReason =
+	/** A profileSwitcher.* setting */
+	| "settings"
+	/** A profile-switcher.json / profiles.json config file */
+	| "configFile"
+	/** A personal mapping */
+	| "personal"
+	/** A .vscode-profile file or the profileSwitcher field of a package.json */
+	| "packageConfig"
+	/** Workspace folders were added or removed */
+	| "workspaceFolders"
+	/** A `when` condition changed: the git branch, or a day or time window started or ended */
+	| "conditions";
+
+/**
+ * Owns the listeners that drive profile switching: everything that can change which
+ * profile a file maps to, and the active editor. Settings are read when needed rather
+ * than captured at activation, so changes apply without reloading the window.
+ *
+ * Config files are read through vscode.workspace.fs ahead of time, since rules are
+ * resolved synchronously; `ready` resolves once every workspace folder's file is read.
+ */
+export class ConfigurationService implements vscode.Disposable {
+	private readonly mappingsEmitter = new vscode.EventEmitter<MappingChangeReason>();
+	private readonly activeFileEmitter = new vscode.EventEmitter<void>();
+	private readonly disposables: vscode.Disposable[] = [];
+	/** Which rules with day or time conditions held at the last clock check */
+	private clockState = "";
+
+	/** Fires when the rules of any workspace folder may have changed */
+	readonly onDidChangeMappings = this.mappingsEmitter.event;
+
+	/** Fires when the active text or notebook editor changes */
+	readonly onDidChangeActiveFile = this.activeFileEmitter.event;
+
+	/** Resolves once the config files of the workspace folders are read */
+	readonly ready: Promise<void>;
+
+	constructor() {
+		const configFileWatcher = vscode.workspace.createFileSystemWatcher(
+			`**/.vscode/{${CONFIG_FILE_NAMES.join(",")}}`,
+		);
+		const configFileChanged = async (uri: vscode.Uri) => {
+			const folder = vscode.workspace.getWorkspaceFolder(uri);
+			if (folder) {
+				await loadConfigFile(folder.uri);
+				this.mappingsEmitter.fire("configFile");
+			}
+		};
+		const activeFileChanged = () => this.activeFileEmitter.fire();
+
+		this.disposables.push(
+			this.mappingsEmitter,
+			this.activeFileEmitter,
+			configFileWatcher,
+			configFileWatcher.onDidCreate(configFileChanged),
+			configFileWatcher.onDidChange(configFileChanged),
+			configFileWatcher.onDidDelete(configFileChanged),
+			// Keep per-package configs (.vscode-profile, package.json) in sync with the disk
+			watchPackageConfigs(),
+			onDidChangePackageConfigs(() => this.mappingsEmitter.fire("packageConfig")),
+			onDidChangePersonalMappings(() => this.mappingsEmitter.fire("personal")),
+			// Branch conditions follow checkouts, time conditions the clock
+			watchGitBranches(),
+			onDidChangeGitBranch(() => this.mappingsEmitter.fire("conditions")),
+			vscode.workspace.onDidChangeWorkspaceFolders(async (event) => {
+				for (const folder of event.removed) {
+					unloadConfigFile(folder.uri);
+				}
+				await Promise.all(event.added.map((folder) => loadConfigFile(folder.uri)));
+				this.mappingsEmitter.fire("workspaceFolders");
+			}),
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				// Profiles are read from another directory from now on, see userDataPath.ts
+				if (event.affectsConfiguration("profileSwitcher.userDataPath")) {
+					getProfileRegistry().setReader(createDefaultStorageReader());
+				}
+				if (event.affectsConfiguration("profileSwitcher")) {
+					this.mappingsEmitter.fire("settings");
+				}
+			}),
+			vscode.window.onDidChangeActiveTextEditor(activeFileChanged),
+			vscode.window.onDidChangeActiveNotebookEditor(activeFileChanged),
+			vscode.workspace.onDidOpenNotebookDocument(activeFileChanged),
+		);
+
+		this.clockState = this.getClockState();
+		const clock = setInterval(() => this.checkClock(), CLOCK_INTERVAL_MS);
+		this.disposables.push({ dispose: () => clearInterval(clock) });
+
+		this.ready = this.loadConfigFiles();
+	}
+
+	/**
+	 * Whether profiles are switched automatically (profileSwitcher.autoSwitch)
+	 */
+	get autoSwitch(): boolean {
+		return vscode.workspace.getConfiguration("profileSwitcher").get<boolean>("autoSwitch", true);
+	}
+
+	/**
+	 * Reads the config file of every workspace folder; views created before that are
+	 * refreshed through onDidChangeMappings if any folder has one
+	 */
+	private async loadConfigFiles(): Promise<void> {
+		const folders = vscode.workspace.workspaceFolders ?? [];
+		await Promise.all(folders.map((folder) => loadConfigFile(folder.uri)));
+
+		if (folders.some((folder) => getConfigFileSettings(folder.uri))) {
+			this.mappingsEmitter.fire("configFile");
+		}
+	}
+
+	/**
+	 * Fires onDidChangeMappings when a rule's day or time window started or ended
+	 */
+	private checkClock(): void {
+		const state = this.getClockState();
+		if (state !== this.clockState) {
+			this.clockState = state;
+			this.mappingsEmitter.fire("conditions");
+		}
+	}
+
+	/**
+	 * Whether each rule with day or time conditions holds right now, as a string
+	 */
+	private getClockState(): string {
+		const now = new Date();
+		return (vscode.workspace.workspaceFolders ?? [])
+			.flatMap((folder) => collectProfileRules(folder))
+			.map((rule) => rule.options?.when)
+			.filter((when): when is RuleConditions => when !== undefined && hasTimeConditions(when))
+			.map(({ days, time }) => (checkConditions({ days, time }, { now }) ? "0" : "1"))
+			.join("");
+	}
+
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+}
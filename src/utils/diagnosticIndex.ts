@@ -0,0 +1,44 @@
+/**
+ * Finds what a reported diagnostic was about when a code action provider is asked for
+ * fixes. VS Code passes copies of the reported diagnostics in the CodeActionContext,
+ * not the objects themselves, so they are looked up by document, code and range.
+ *
+ * Doesn't use the VS Code API: vscode.Diagnostic fits IndexedDiagnostic as is.
+ */
+
+export interface IndexedPosition {
+	line: number;
+	character: number;
+}
+
+/**
+ * The parts of a diagnostic that identify it
+ */
+export interface IndexedDiagnostic {
+	code?: string | number | { value: string | number };
+	range: { start: IndexedPosition; end: IndexedPosition };
+}
+
+export class DiagnosticIndex<T> {
+	private readonly entries = new Map<string, T>();
+
+	/**
+	 * Adds a reported diagnostic of a document, named by its URI string
+	 */
+	set(document: string, diagnostic: IndexedDiagnostic, value: T): void {
+		this.entries.set(diagnosticId(document, diagnostic), value);
+	}
+
+	/**
+	 * Gets the value of a diagnostic passed to a code action provider
+	 */
+	get(document: string, diagnostic: IndexedDiagnostic): T | undefined {
+		return this.entries.get(diagnosticId(document, diagnostic));
+	}
+}
+
+function diagnosticId(document: string, { code, range }: IndexedDiagnostic): string {
+	const value = typeof code === "object" ? code.value : code;
+	const { start, end } = range;
+	return JSON.stringify([document, value, start.line, start.character, end.line, end.character]);
+}
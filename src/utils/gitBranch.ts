@@ -0,0 +1,163 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { readTextFile, statFile } from "./workspaceFs";
+
+/**
+ * Checked-out git branch of each workspace folder, for `branch` rule conditions.
+ *
+ * The built-in git extension is asked first. It runs next to the workspace, so in
+ * remote windows it isn't reachable from this (UI side) extension; then HEAD is read
+ * from the repository through vscode.workspace.fs.
+ */
+
+/** Subset of the built-in git extension's API (extensions/git/src/api/git.d.ts) */
+interface GitExtension {
+	getAPI(version: 1): GitApi;
+}
+
+interface GitApi {
+	getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitRepository {
+	readonly state: { readonly HEAD?: { readonly name?: string } };
+}
+
+/** Branch per workspace folder URI; undefined when HEAD is detached or there is no repository */
+const cache = new Map<string, string | undefined>();
+
+/** Folders being read in the background, see getGitBranch */
+const pending = new Set<string>();
+
+const changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+/** Fires with the workspace folder whose branch changed (or was found in the background) */
+export const onDidChangeGitBranch = changeEmitter.event;
+
+/**
+ * Gets the checked-out branch of a workspace folder, as last read
+ * A folder that wasn't read yet is read in the background and onDidChangeGitBranch
+ * fires if it is on a branch.
+ */
+export function getGitBranch(folderUri: vscode.Uri): string | undefined {
+	const key = folderUri.toString();
+	if (!cache.has(key) && !pending.has(key)) {
+		pending.add(key);
+		updateBranch(folderUri, true).finally(() => pending.delete(key));
+	}
+	return cache.get(key);
+}
+
+/**
+ * Reads the checked-out branch of a workspace folder, so that getGitBranch sees it;
+ * a folder read before is not read again
+ */
+export async function loadGitBranch(folderUri: vscode.Uri): Promise<void> {
+	if (!cache.has(folderUri.toString())) {
+		await updateBranch(folderUri, false);
+	}
+}
+
+/**
+ * Watches HEAD files to re-read the branches of the folders read so far
+ */
+export function watchGitBranches(): vscode.Disposable {
+	const watcher = vscode.workspace.createFileSystemWatcher("**/.git/HEAD");
+
+	// Checkouts rewrite HEAD; which folder it belongs to isn't worth working out
+	// The git extension may not have seen the checkout yet, so HEAD is read directly
+	const refresh = () => {
+		for (const key of cache.keys()) {
+			updateBranch(vscode.Uri.parse(key), true, true);
+		}
+	};
+
+	return vscode.Disposable.from(
+		watcher,
+		watcher.onDidCreate(refresh),
+		watcher.onDidChange(refresh),
+		watcher.onDidDelete(refresh),
+	);
+}
+
+/**
+ * Reads the branch of a folder into the cache
+ * @param fromHead Skip the git extension and read HEAD, for changes it may not know yet
+ */
+async function updateBranch(
+	folderUri: vscode.Uri,
+	notify: boolean,
+	fromHead = false,
+): Promise<void> {
+	const key = folderUri.toString();
+	const known = cache.has(key);
+	const previous = cache.get(key);
+
+	let branch: string | undefined;
+	try {
+		branch = fromHead
+			? await readBranchFromHead(folderUri)
+			: (getBranchFromGitExtension(folderUri) ?? (await readBranchFromHead(folderUri)));
+	} catch (error) {
+		console.error(`Error reading the git branch of ${folderUri.toString()}:`, error);
+	}
+
+	cache.set(key, branch);
+	if (notify && (known ? branch !== previous : branch !== undefined)) {
+		changeEmitter.fire(folderUri);
+	}
+}
+
+function getBranchFromGitExtension(folderUri: vscode.Uri): string | undefined {
+	const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+	if (!extension?.isActive) {
+		return undefined;
+	}
+	return extension.exports.getAPI(1).getRepository(folderUri)?.state.HEAD?.name;
+}
+
+/**
+ * Reads the branch from the HEAD file of the repository holding a folder, looking in
+ * the folder and its parents. Worktrees and submodules have a .git file pointing at
+ * their git directory.
+ */
+async function readBranchFromHead(folderUri: vscode.Uri): Promise<string | undefined> {
+	let current = folderUri;
+
+	for (;;) {
+		const dotGit = vscode.Uri.joinPath(current, ".git");
+		const type = await statFile(dotGit);
+
+		if (type !== undefined) {
+			const gitDir = type & vscode.FileType.Directory ? dotGit : await readGitDirLink(dotGit, current);
+			const head = gitDir ? await readTextFile(vscode.Uri.joinPath(gitDir, "HEAD")) : undefined;
+			return head?.match(/^ref:\s*refs\/heads\/(.+)$/m)?.[1].trim();
+		}
+
+		const parent = vscode.Uri.joinPath(current, "..");
+		if (parent.path === current.path) {
+			return undefined;
+		}
+		current = parent;
+	}
+}
+
+/**
+ * Resolves the "gitdir: <path>" line of a .git file
+ */
+async function readGitDirLink(
+	dotGit: vscode.Uri,
+	folderUri: vscode.Uri,
+): Promise<vscode.Uri | undefined> {
+	const gitDir = (await readTextFile(dotGit))?.match(/^gitdir:\s*(.+)$/m)?.[1].trim();
+	if (!gitDir) {
+		return undefined;
+	}
+
+	const gitDirPath = gitDir.replace(/\\/g, "/");
+	return path.posix.isAbsolute(gitDirPath) || /^[a-zA-Z]:\//.test(gitDirPath)
+		? folderUri.scheme === "file"
+			? vscode.Uri.file(gitDir)
+			: folderUri.with({ path: gitDirPath })
+		: vscode.Uri.joinPath(folderUri, gitDirPath);
+}
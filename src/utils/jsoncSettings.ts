@@ -0,0 +1,107 @@
+import {
+	applyEdits,
+	type FormattingOptions,
+	type JSONPath,
+	modify,
+	type ParseError,
+	parse,
+	printParseErrorCode,
+} from "jsonc-parser";
+import type * as vscode from "vscode";
+import { readTextFile, toFileName, writeTextFile } from "./workspaceFs";
+
+/**
+ * Thrown when a settings file can't be parsed as JSON with comments.
+ * Nothing is written to a file that fails to parse, so the team's settings are never lost.
+ */
+export class SettingsFileError extends Error {
+	constructor(
+		readonly file: string,
+		readonly details: string,
+	) {
+		super(`Could not update ${file}: ${details}. Fix the file and try again.`);
+		this.name = "SettingsFileError";
+	}
+}
+
+const PARSE_OPTIONS = { allowTrailingComma: true, disallowComments: false };
+
+/**
+ * Reads a JSONC settings file (comments and trailing commas allowed)
+ * Returns an empty object if the file doesn't exist, throws SettingsFileError if it can't be parsed
+ */
+export async function readSettingsFile(file: vscode.Uri): Promise<Record<string, unknown>> {
+	const content = await readTextFile(file);
+	return content === undefined ? {} : parseSettings(toFileName(file), content);
+}
+
+/**
+ * Sets a value in a JSONC settings file, or removes it when value is undefined.
+ * Only the edited key changes: comments, indentation and the order of other keys are kept.
+ * Creates the file (and its folder) if needed, throws SettingsFileError if it can't be parsed.
+ */
+export async function updateSettingsFile(
+	file: vscode.Uri,
+	keyPath: JSONPath,
+	value: unknown,
+): Promise<void> {
+	const content = (await readTextFile(file)) ?? "{}\n";
+
+	// Refuse to touch a file we can't fully understand
+	parseSettings(toFileName(file), content);
+
+	const edits = modify(content, keyPath, value, {
+		formattingOptions: detectFormatting(content),
+	});
+	if (edits.length === 0) {
+		return;
+	}
+
+	await writeTextFile(file, applyEdits(content, edits));
+}
+
+/**
+ * Parses the content of a JSONC settings file
+ * Throws SettingsFileError, naming the file, if it can't be parsed
+ */
+export function parseSettings(file: string, content: string): Record<string, unknown> {
+	const errors: ParseError[] = [];
+	const settings = parse(content, errors, PARSE_OPTIONS);
+
+	if (errors.length > 0) {
+		const { error, offset } = errors[0];
+		throw new SettingsFileError(
+			file,
+			`it is not valid JSON (${printParseErrorCode(error)} at line ${lineAt(content, offset)})`,
+		);
+	}
+
+	if (settings === undefined || settings === null) {
+		// Empty or comment-only file
+		return {};
+	}
+
+	if (typeof settings !== "object" || Array.isArray(settings)) {
+		throw new SettingsFileError(file, "the file does not contain a JSON object");
+	}
+
+	return settings;
+}
+
+/**
+ * Uses the file's own indentation and line endings for inserted lines
+ */
+export function detectFormatting(content: string): FormattingOptions {
+	const eol = content.includes("\r\n") ? "\r\n" : "\n";
+	const indent = content.match(/^([ \t]+)\S/m)?.[1];
+
+	if (indent?.startsWith("\t")) {
+		return { insertSpaces: false, tabSize: 1, eol };
+	}
+
+	return { insertSpaces: true, tabSize: indent?.length ?? 2, eol };
+}
+
+function lineAt(content: string, offset: number): number {
+	return content.slice(0, offset).split("\n").length;
+}
@@ -0,0 +1,90 @@
+import type { ProfileManifestEntry } from "./profileManifest";
+
+/**
+ * Compares a profile's extensions and settings with its entry in the team profile
+ * manifest (see profileManifest.ts).
+ *
+ * Doesn't use the VS Code API; views/profileDrift.ts reads the profile and reports the drift.
+ */
+
+export type DriftKind = "missingExtension" | "extraExtension" | "settingMismatch";
+
+export interface DriftItem {
+	kind: DriftKind;
+	/** Profile name the manifest entry belongs to */
+	profile: string;
+	/** Extension ID or setting key */
+	key: string;
+	/** Expected setting value, for settingMismatch */
+	expected?: unknown;
+	/** Current setting value, for settingMismatch; undefined when the setting isn't set */
+	actual?: unknown;
+}
+
+/**
+ * Compares a manifest entry with a profile's extensions and settings
+ */
+export function computeDrift(
+	profile: string,
+	entry: ProfileManifestEntry,
+	installedExtensions: string[],
+	settings: Record<string, unknown>,
+): DriftItem[] {
+	const drift: DriftItem[] = [];
+	const installed = new Set(installedExtensions.map((id) => id.toLowerCase()));
+	const required = new Set((entry.extensions ?? []).map((id) => id.toLowerCase()));
+
+	for (const id of entry.extensions ?? []) {
+		if (!installed.has(id.toLowerCase())) {
+			drift.push({ kind: "missingExtension", profile, key: id });
+		}
+	}
+
+	if (entry.reportExtraExtensions) {
+		for (const id of installedExtensions) {
+			if (!required.has(id.toLowerCase())) {
+				drift.push({ kind: "extraExtension", profile, key: id });
+			}
+		}
+	}
+
+	for (const [key, expected] of Object.entries(entry.settings ?? {})) {
+		const actual = settings[key];
+		if (!isDeepEqual(actual, expected)) {
+			drift.push({ kind: "settingMismatch", profile, key, expected, actual });
+		}
+	}
+
+	return drift;
+}
+
+/**
+ * Identity of a drift item, used to remember ignored items
+ */
+export function driftKey(item: DriftItem): string {
+	return JSON.stringify([item.profile, item.kind, item.key]);
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+	if (a === b) {
+		return true;
+	}
+	if (
+		!a ||
+		!b ||
+		typeof a !== "object" ||
+		typeof b !== "object" ||
+		Array.isArray(a) !== Array.isArray(b)
+	) {
+		return false;
+	}
+
+	const aKeys = Object.keys(a);
+	const bKeys = Object.keys(b);
+	return (
+		aKeys.length === bKeys.length &&
+		aKeys.every((key) =>
+			isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+		)
+	);
+}
@@ -0,0 +1,198 @@
+import * as vscode from "vscode";
+import { describeRule, type ProfileRule } from "./profileResolver";
+import { collectProfileRules, resolveProfileForUri } from "./profileRules";
+
+/**
+ * Chooses the window's profile when the folders of a multi-root workspace map to
+ * different profiles. A window runs in one profile, so only one folder can win.
+ */
+
+export type MultiRootStrategy =
+	/** The first workspace folder that maps to a profile wins */
+	| "firstFolder"
+	/** The .code-workspace file's workspaceProfile wins, then the first folder */
+	| "workspaceFile"
+	/** The folder of the active editor wins, then the first folder */
+	| "activeEditor"
+	/** Ask which profile to use when folders disagree */
+	| "ask";
+
+const STRATEGY_LABELS: Record<MultiRootStrategy, string> = {
+	firstFolder: "first folder wins",
+	workspaceFile: "workspace file wins",
+	activeEditor: "active editor's folder wins",
+	ask: "chosen by you",
+};
+
+export interface WorkspaceProfileChoice {
+	profile: string;
+	rule: ProfileRule;
+}
+
+interface FolderProfile extends WorkspaceProfileChoice {
+	folder: vscode.WorkspaceFolder;
+}
+
+/** Conflicts already reported or answered in this window, by their folder → profile list */
+const reportedConflicts = new Set<string>();
+const answeredConflicts = new Map<string, FolderProfile>();
+
+/**
+ * Gets the configured multi-root strategy
+ */
+export function getMultiRootStrategy(): MultiRootStrategy {
+	return vscode.workspace
+		.getConfiguration("profileSwitcher")
+		.get<MultiRootStrategy>("multiRootStrategy", "activeEditor");
+}
+
+/**
+ * Returns true when the workspace-level profile is chosen by the strategy rather than
+ * by the active editor, i.e. editor changes shouldn't switch between folder profiles
+ */
+export function isWorkspaceProfilePinned(): boolean {
+	return (
+		(vscode.workspace.workspaceFolders?.length ?? 0) > 1 && getMultiRootStrategy() !== "activeEditor"
+	);
+}
+
+/**
+ * Chooses the profile for the whole workspace according to the multi-root strategy;
+ * folders mapping to other profiles are reported in a notification
+ * With interactive set to false, the "ask" strategy only reuses an earlier answer
+ * Returns undefined if no folder maps to a profile (or the user cancels the choice)
+ */
+export async function chooseWorkspaceProfile(
+	activeDecision: WorkspaceProfileChoice | undefined,
+	interactive = true,
+): Promise<WorkspaceProfileChoice | undefined> {
+	const folders = getFolderProfiles();
+	const strategy = getMultiRootStrategy();
+	const profiles = new Set(folders.map((folder) => folder.profile));
+	const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+
+	// Single folder (or no disagreement): the active editor decides first, as always
+	if (!isMultiRoot || profiles.size <= 1) {
+		return activeDecision ?? folders[0];
+	}
+
+	let chosen: WorkspaceProfileChoice | undefined;
+	switch (strategy) {
+		case "firstFolder":
+			chosen = folders[0];
+			break;
+		case "workspaceFile":
+			chosen = getWorkspaceFileProfile() ?? folders[0];
+			break;
+		case "activeEditor":
+			chosen = activeDecision ?? folders[0];
+			break;
+		case "ask":
+			// Asking is the conflict report
+			return interactive ? askForProfile(folders) : answeredConflicts.get(conflictKey(folders));
+	}
+
+	if (chosen && profiles.size > 1) {
+		reportConflict(folders, chosen.profile, strategy);
+	}
+	return chosen;
+}
+
+/**
+ * Resolves each workspace folder's own profile, in folder order
+ */
+function getFolderProfiles(): FolderProfile[] {
+	const folderProfiles: FolderProfile[] = [];
+
+	for (const folder of vscode.workspace.workspaceFolders ?? []) {
+		const decision = resolveProfileForUri(folder.uri);
+		if (decision?.profile && decision.rule) {
+			folderProfiles.push({ folder, profile: decision.profile, rule: decision.rule });
+		}
+	}
+
+	return folderProfiles;
+}
+
+/**
+ * Gets the workspaceProfile set in the .code-workspace file, if any
+ */
+function getWorkspaceFileProfile(): WorkspaceProfileChoice | undefined {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	const rule = folder
+		? collectProfileRules(folder).find(
+				(candidate) =>
+					candidate.kind === "workspace" &&
+					candidate.source.scope === "workspace" &&
+					candidate.options?.enabled !== false,
+			)
+		: undefined;
+
+	return rule ? { profile: rule.profile, rule } : undefined;
+}
+
+async function askForProfile(
+	folders: FolderProfile[],
+): Promise<WorkspaceProfileChoice | undefined> {
+	const key = conflictKey(folders);
+	const answered = answeredConflicts.get(key);
+	if (answered) {
+		return answered;
+	}
+
+	// One entry per profile, listing the folders that want it
+	const items = [...new Set(folders.map((folder) => folder.profile))].map((profile) => {
+		const wanting = folders.filter((folder) => folder.profile === profile);
+		return {
+			label: profile,
+			description: wanting.map(({ folder }) => folder.name).join(", "),
+			detail: wanting.map(({ folder, rule }) => `${folder.name}: ${describeRule(rule)}`).join(" · "),
+			choice: wanting[0],
+		};
+	});
+
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: "Workspace folders map to different profiles. Which one should this window use?",
+		ignoreFocusOut: true,
+	});
+	if (!selected) {
+		return undefined;
+	}
+
+	answeredConflicts.set(key, selected.choice);
+	return selected.choice;
+}
+
+/**
+ * Tells the user which folders want which profile, once per conflict
+ */
+function reportConflict(
+	folders: FolderProfile[],
+	chosen: string,
+	strategy: MultiRootStrategy,
+): void {
+	const key = conflictKey(folders);
+	if (reportedConflicts.has(key)) {
+		return;
+	}
+	reportedConflicts.add(key);
+
+	const wanted = folders.map(({ folder, profile }) => `${folder.name} → "${profile}"`).join(", ");
+	vscode.window
+		.showInformationMessage(
+			`Workspace folders map to different profiles: ${wanted}. Using "${chosen}" (${STRATEGY_LABELS[strategy]}).`,
+			"Change Strategy",
+		)
+		.then((selection) => {
+			if (selection === "Change Strategy") {
+				vscode.commands.executeCommand(
+					"workbench.action.openSettings",
+					"profileSwitcher.multiRootStrategy",
+				);
+			}
+		});
+}
+
+function conflictKey(folders: FolderProfile[]): string {
+	return JSON.stringify(folders.map(({ folder, profile }) => [folder.uri.toString(), profile]));
+}
@@ -0,0 +1,213 @@
+import * as vscode from "vscode";
+import { asRuleValue } from "./configFile";
+import { parseSettings } from "./jsoncSettings";
+import { normalizeRelativePath } from "./pathMatcher";
+import { type ProfileRule, packageRule, type RuleValue } from "./profileResolver";
+import { readTextFile, statFile, toFileName } from "./workspaceFs";
+
+/**
+ * Per-package profile configs, so each package of a monorepo can declare its own
+ * profile instead of editing the root directoryProfiles map:
+ * - a `.vscode-profile` file holding a profile name, or a JSON rule object
+ * - a `profileSwitcher` field in package.json, with the same two forms
+ *
+ * The resolver walks up from the file to the workspace root and the nearest config wins;
+ * a folder being resolved (e.g. from the Explorer) counts its own config.
+ */
+
+export const PROFILE_MARKER_FILE = ".vscode-profile";
+
+const PACKAGE_JSON_FILE = "package.json";
+const PACKAGE_JSON_FIELD = "profileSwitcher";
+
+interface PackageConfig {
+	file: string;
+	value: RuleValue;
+}
+
+/** Configs found per folder URI, until the watcher reports a change */
+const cache = new Map<string, PackageConfig[]>();
+
+/** URIs loadPackageConfigs found to be folders, whose own configs apply to them */
+const resolvedFolders = new Set<string>();
+
+/** Folders being read in the background, see getPackageRules */
+const pending = new Set<string>();
+
+const changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+/**
+ * Fires with the changed file when a package config that was already read changes,
+ * or when one is found by a read getPackageRules started in the background
+ */
+export const onDidChangePackageConfigs = changeEmitter.event;
+
+/**
+ * Watches marker files and package.json files to keep the cache up to date
+ */
+export function watchPackageConfigs(): vscode.Disposable {
+	const watcher = vscode.workspace.createFileSystemWatcher(
+		`**/{${PROFILE_MARKER_FILE},${PACKAGE_JSON_FILE}}`,
+	);
+
+	const invalidate = (uri: vscode.Uri) => {
+		// Only folders that were looked at matter; this also ignores installs into node_modules
+		if (cache.delete(vscode.Uri.joinPath(uri, "..").toString())) {
+			changeEmitter.fire(uri);
+		}
+	};
+
+	return vscode.Disposable.from(
+		watcher,
+		watcher.onDidCreate(invalidate),
+		watcher.onDidChange(invalidate),
+		watcher.onDidDelete(invalidate),
+	);
+}
+
+/**
+ * Gets the rules of every package config between the folder of a file (or a folder
+ * itself) and its workspace folder root (both included), nearest first
+ * Only folders read by loadPackageConfigs are used; the others are read in the
+ * background and onDidChangePackageConfigs fires if they hold a config.
+ */
+export function getPackageRules(folderUri: vscode.Uri, relativePath: string): ProfileRule[] {
+	const rules: ProfileRule[] = [];
+	const isFolder = resolvedFolders.has(vscode.Uri.joinPath(folderUri, relativePath).toString());
+
+	for (const folder of getAncestors(relativePath, isFolder)) {
+		const folderConfigUri = vscode.Uri.joinPath(folderUri, folder);
+		const configs = cache.get(folderConfigUri.toString());
+		if (!configs) {
+			loadInBackground(folderConfigUri);
+			continue;
+		}
+
+		for (const config of configs) {
+			const rule = packageRule(folder, config.value, {
+				scope: "workspaceFolder",
+				file: config.file,
+			});
+			if (rule) {
+				rules.push(rule);
+			}
+		}
+	}
+
+	return rules;
+}
+
+/**
+ * Reads the package configs between the folder of a file (or a folder itself) and
+ * its workspace folder root, so that getPackageRules sees them; folders read before
+ * are not read again
+ */
+export async function loadPackageConfigs(
+	folderUri: vscode.Uri,
+	relativePath: string,
+): Promise<void> {
+	const uri = vscode.Uri.joinPath(folderUri, relativePath);
+	const type = await statFile(uri);
+	const isFolder = type !== undefined && (type & vscode.FileType.Directory) !== 0;
+	if (isFolder) {
+		resolvedFolders.add(uri.toString());
+	}
+
+	await Promise.all(
+		getAncestors(relativePath, isFolder).map((folder) =>
+			getFolderConfigs(vscode.Uri.joinPath(folderUri, folder)),
+		),
+	);
+}
+
+/**
+ * Gets the folders holding a relative path, nearest first, ending with ""
+ * A folder path starts with itself; the workspace folder root itself ("") has only itself.
+ */
+function getAncestors(relativePath: string, isFolder: boolean): string[] {
+	const segments = normalizeRelativePath(relativePath).split("/").filter(Boolean);
+	const folders: string[] = [];
+	const nearest = isFolder ? segments.length : segments.length - 1;
+
+	for (let depth = Math.max(nearest, 0); depth >= 0; depth--) {
+		folders.push(segments.slice(0, depth).join("/"));
+	}
+
+	return folders;
+}
+
+function loadInBackground(folderUri: vscode.Uri): void {
+	const key = folderUri.toString();
+	if (pending.has(key)) {
+		return;
+	}
+
+	pending.add(key);
+	getFolderConfigs(folderUri).then((configs) => {
+		pending.delete(key);
+		if (configs.length > 0) {
+			changeEmitter.fire(folderUri);
+		}
+	});
+}
+
+async function getFolderConfigs(folderUri: vscode.Uri): Promise<PackageConfig[]> {
+	const cached = cache.get(folderUri.toString());
+	if (cached) {
+		return cached;
+	}
+
+	const configs: PackageConfig[] = [];
+
+	const markerFile = vscode.Uri.joinPath(folderUri, PROFILE_MARKER_FILE);
+	const markerValue = await readMarkerFile(markerFile);
+	if (markerValue) {
+		configs.push({ file: toFileName(markerFile), value: markerValue });
+	}
+
+	const packageJsonFile = vscode.Uri.joinPath(folderUri, PACKAGE_JSON_FILE);
+	const packageJsonValue = await readPackageJson(packageJsonFile);
+	if (packageJsonValue) {
+		configs.push({ file: toFileName(packageJsonFile), value: packageJsonValue });
+	}
+
+	cache.set(folderUri.toString(), configs);
+	return configs;
+}
+
+/**
+ * Reads a marker file: JSON when it starts with "{", otherwise the first line
+ * that is neither empty nor a # comment is the profile name
+ */
+async function readMarkerFile(file: vscode.Uri): Promise<RuleValue | undefined> {
+	try {
+		const content = (await readTextFile(file))?.trim();
+		if (content === undefined) {
+			return undefined;
+		}
+		if (content.startsWith("{")) {
+			return asRuleValue(parseSettings(toFileName(file), content));
+		}
+
+		return content
+			.split(/\r?\n/)
+			.map((line) => line.trim())
+			.find((line) => line && !line.startsWith("#"));
+	} catch (error) {
+		console.error(`Error reading profile marker file ${toFileName(file)}:`, error);
+		return undefined;
+	}
+}
+
+async function readPackageJson(file: vscode.Uri): Promise<RuleValue | undefined> {
+	try {
+		const content = await readTextFile(file);
+		if (content === undefined) {
+			return undefined;
+		}
+		return asRuleValue(parseSettings(toFileName(file), content)[PACKAGE_JSON_FIELD]);
+	} catch (error) {
+		console.error(`Error reading ${toFileName(file)}:`, error);
+		return undefined;
+	}
+}
@@ -0,0 +1,163 @@
+/**
+ * Pattern matching for `profileSwitcher.directoryProfiles` keys.
+ *
+ * Keys are matched against paths relative to the workspace folder, always using
+ * forward slashes. A key can be a plain path (`backend/`) or a glob pattern:
+ * - `*` matches any characters within a single path segment
+ * - `**` matches any number of path segments, including none; a trailing `/**` also
+ *   matches the folder itself, so `packages/**` is anchored at `packages` like `packages/`
+ * - `?` matches a single character within a path segment
+ * - `{a,b}` matches any of the comma-separated alternatives
+ * - `[abc]` / `[!abc]` matches one character from (or not from) the set
+ * - a leading `!` turns the key into an exclusion rule (see profileResolver.ts)
+ *
+ * A key matches a path when it matches the path itself or one of its parent
+ * directories, so `backend/` and `packages/x/api` apply to everything below them.
+ * A trailing `/` is optional.
+ */
+
+export interface CompiledPattern {
+	/** The key exactly as written in settings */
+	key: string;
+	/** True when the key starts with `!` */
+	negated: boolean;
+	/** True when the key contains glob syntax */
+	isGlob: boolean;
+	/** Number of non-wildcard characters, used to rank competing globs */
+	literalLength: number;
+	regex: RegExp;
+}
+
+const GLOB_CHARS = /[*?{[]/;
+
+/**
+ * Returns true when a directoryProfiles key uses glob syntax or negation
+ */
+export function isGlobPattern(key: string): boolean {
+	return key.startsWith("!") || GLOB_CHARS.test(key);
+}
+
+/**
+ * Normalizes a relative path or pattern: forward slashes, no leading `./` or `/`,
+ * no trailing `/`
+ */
+export function normalizeRelativePath(value: string): string {
+	return value
+		.replace(/\\/g, "/")
+		.replace(/^(\.\/)+/, "")
+		.replace(/^\/+/, "")
+		.replace(/\/+$/, "");
+}
+
+/**
+ * Compiles a directoryProfiles key into a regular expression
+ */
+export function compilePattern(key: string): CompiledPattern {
+	const negated = key.startsWith("!");
+	const body = normalizeRelativePath(negated ? key.slice(1) : key);
+	const isGlob = GLOB_CHARS.test(body);
+
+	let regex = "";
+	let literalLength = 0;
+	let braceDepth = 0;
+
+	for (let i = 0; i < body.length; i++) {
+		const char = body[i];
+
+		if (char === "*") {
+			if (body[i + 1] === "*") {
+				// `**/` may match zero segments, a trailing `**` matches everything below
+				if (body[i + 2] === "/") {
+					regex += "(?:.*/)?";
+					i += 2;
+				} else if (i + 2 === body.length && regex.endsWith("/")) {
+					// A trailing `/**` includes its folder, so the rule is anchored there
+					regex = `${regex.slice(0, -1)}(?:/.*)?`;
+					i += 1;
+				} else {
+					regex += ".*";
+					i += 1;
+				}
+			} else {
+				regex += "[^/]*";
+			}
+		} else if (char === "?") {
+			regex += "[^/]";
+		} else if (char === "{") {
+			braceDepth++;
+			regex += "(?:";
+		} else if (char === "}" && braceDepth > 0) {
+			braceDepth--;
+			regex += ")";
+		} else if (char === "," && braceDepth > 0) {
+			regex += "|";
+		} else if (char === "[") {
+			const end = body.indexOf("]", i + 1);
+			if (end === -1) {
+				regex += "\\[";
+				literalLength++;
+				continue;
+			}
+			let set = body.slice(i + 1, end).replace(/\\/g, "\\\\");
+			if (set.startsWith("!")) {
+				set = `^${set.slice(1)}`;
+			}
+			regex += `[${set}]`;
+			i = end;
+		} else {
+			regex += char.replace(/[.+^$()|\\\]}]/g, "\\$&");
+			literalLength++;
+		}
+	}
+
+	// Unbalanced braces are treated as a literal pattern rather than failing
+	let compiled: RegExp;
+	try {
+		compiled = new RegExp(`^${regex}$`);
+	} catch {
+		compiled = new RegExp(`^${body.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`);
+	}
+
+	return { key, negated, isGlob, literalLength, regex: compiled };
+}
+
+/**
+ * Tests a compiled pattern against a relative path and its parent directories.
+ * Returns the depth (segment count) of the shallowest matching path, i.e. the
+ * folder the rule is anchored at, or undefined when nothing matches.
+ */
+export function matchPattern(pattern: CompiledPattern, relativePath: string): number | undefined {
+	const segments = normalizeRelativePath(relativePath).split("/").filter(Boolean);
+
+	for (let depth = 1; depth <= segments.length; depth++) {
+		if (pattern.regex.test(segments.slice(0, depth).join("/"))) {
+			return depth;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Tests a compiled pattern against a file itself; unlike matchPattern, parent
+ * directories don't count. A pattern without `/` is matched against the file name
+ * in any folder, so `*.tex` covers `docs/paper.tex`.
+ * Returns the depth of the file, or undefined when the pattern doesn't match.
+ */
+export function matchFilePattern(
+	pattern: CompiledPattern,
+	relativePath: string,
+): number | undefined {
+	const normalizedPath = normalizeRelativePath(relativePath);
+	if (!normalizedPath) {
+		return undefined;
+	}
+
+	const segments = normalizedPath.split("/");
+	const body = pattern.negated ? pattern.key.slice(1) : pattern.key;
+	const target = normalizeRelativePath(body).includes("/")
+		? normalizedPath
+		: segments[segments.length - 1];
+
+	return pattern.regex.test(target) ? segments.length : undefined;
+}
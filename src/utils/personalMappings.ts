@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+
+/**
+ * Personal profile mappings: per workspace folder overrides kept in the extension's
+ * global state, so they apply only on this machine and are never committed.
+ */
+
+export interface PersonalMapping {
+	workspaceProfile?: string;
+	directoryProfiles?: Record<string, string>;
+}
+
+const PERSONAL_MAPPINGS_STATE_KEY = "profileSwitcher.personalMappings";
+
+let globalState: vscode.Memento | undefined;
+
+const changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+/** Fires with the workspace folder whose personal mapping changed */
+export const onDidChangePersonalMappings = changeEmitter.event;
+
+/**
+ * Connects personal mappings to the extension's global state; called on activation
+ */
+export function initializePersonalMappings(state: vscode.Memento): void {
+	globalState = state;
+}
+
+/**
+ * Gets the personal mapping for a workspace folder
+ */
+export function getPersonalMapping(folderUri: vscode.Uri): PersonalMapping {
+	return getAllPersonalMappings()[folderUri.toString()] ?? {};
+}
+
+/**
+ * Sets (or clears, with undefined) the personal workspace profile of a folder
+ */
+export async function setPersonalWorkspaceProfile(
+	folderUri: vscode.Uri,
+	profileName: string | undefined,
+): Promise<void> {
+	await updatePersonalMapping(folderUri, (mapping) => ({
+		...mapping,
+		workspaceProfile: profileName,
+	}));
+}
+
+/**
+ * Sets (or removes, with undefined) a personal directory profile of a folder
+ */
+export async function setPersonalDirectoryProfile(
+	folderUri: vscode.Uri,
+	pattern: string,
+	profileName: string | undefined,
+): Promise<void> {
+	await updatePersonalMapping(folderUri, (mapping) => {
+		const directoryProfiles = { ...mapping.directoryProfiles };
+		if (profileName === undefined) {
+			delete directoryProfiles[pattern];
+		} else {
+			directoryProfiles[pattern] = profileName;
+		}
+		return { ...mapping, directoryProfiles };
+	});
+}
+
+function getAllPersonalMappings(): Record<string, PersonalMapping> {
+	return globalState?.get<Record<string, PersonalMapping>>(PERSONAL_MAPPINGS_STATE_KEY, {}) ?? {};
+}
+
+async function updatePersonalMapping(
+	folderUri: vscode.Uri,
+	update: (mapping: PersonalMapping) => PersonalMapping,
+): Promise<void> {
+	if (!globalState) {
+		throw new Error("Personal profile mappings are not available before activation.");
+	}
+
+	const mappings = getAllPersonalMappings();
+	const key = folderUri.toString();
+	const updated = update(mappings[key] ?? {});
+
+	if (!updated.workspaceProfile && Object.keys(updated.directoryProfiles ?? {}).length === 0) {
+		delete mappings[key];
+	} else {
+		mappings[key] = updated;
+	}
+
+	await globalState.update(PERSONAL_MAPPINGS_STATE_KEY, mappings);
+	changeEmitter.fire(folderUri);
+}
@@ -0,0 +1,129 @@
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+/**
+ * Switching through the editor's workspace → profile association.
+ *
+ * Instead of switching the running window, the workspace is reopened with the
+ * editor's CLI (`code --profile <name> --reuse-window <workspace>`). The editor then
+ * remembers the profile for the workspace (profileAssociations in storage.json), so
+ * opening the folder later lands in the right profile too. storage.json itself is
+ * never written: the editor owns it while it runs and would overwrite the change.
+ */
+
+export type SwitchStrategy =
+	/** Switch the running window, reopen the workspace when that fails */
+	| "auto"
+	/** Only switch the running window */
+	| "live"
+	/** Always reopen the workspace in the profile */
+	| "association";
+
+/** CLI launcher names by `vscode.env.appName` */
+const CLI_NAMES: Record<string, string> = {
+	"Visual Studio Code": "code",
+	"Visual Studio Code - Insiders": "code-insiders",
+	"Visual Studio Code - Exploration": "code-exploration",
+	VSCodium: "codium",
+	"VSCodium - Insiders": "codium-insiders",
+	Cursor: "cursor",
+	Windsurf: "windsurf",
+};
+
+/** Characters cmd.exe interprets, escaped with ^ */
+const CMD_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Gets the configured switch strategy
+ */
+export function getSwitchStrategy(): SwitchStrategy {
+	return vscode.workspace
+		.getConfiguration("profileSwitcher")
+		.get<SwitchStrategy>("switchStrategy", "auto");
+}
+
+/**
+ * Finds the CLI launcher of the running editor from its install folder
+ * Returns undefined if it can't be found
+ */
+export function findEditorCli(): string | undefined {
+	const name = CLI_NAMES[vscode.env.appName] ?? "code";
+	const names = process.platform === "win32" ? [`${name}.cmd`, `${name}.exe`] : [name];
+	const appRoot = vscode.env.appRoot;
+
+	// macOS keeps the launcher inside the app bundle, Windows and Linux next to the resources folder
+	const folders = [path.join(appRoot, "bin"), path.join(appRoot, "..", "..", "bin")];
+
+	for (const folder of folders) {
+		for (const candidate of names) {
+			const cli = path.join(folder, candidate);
+			if (fs.existsSync(cli)) {
+				return cli;
+			}
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Reopens the current workspace in a profile with the editor's CLI
+ * Throws if the workspace can't be reopened; the reason is in the error message
+ */
+export async function reopenWorkspaceInProfile(profileName: string): Promise<void> {
+	const workspaceFile = vscode.workspace.workspaceFile;
+	const folder = vscode.workspace.workspaceFolders?.[0];
+
+	let target: string[];
+	if (workspaceFile && workspaceFile.scheme !== "untitled") {
+		target = ["--file-uri", workspaceFile.toString()];
+	} else if (folder && !workspaceFile) {
+		target = ["--folder-uri", folder.uri.toString()];
+	} else {
+		throw new Error("only saved workspaces and single folders can be reopened in a profile");
+	}
+
+	const cli = findEditorCli();
+	if (!cli) {
+		throw new Error(`the ${vscode.env.appName} command line launcher was not found`);
+	}
+
+	const args = ["--profile", profileName, "--reuse-window", ...target];
+	console.log(`Reopening workspace: ${cli} ${args.join(" ")}`);
+
+	await new Promise<void>((resolve, reject) => {
+		const options = { detached: true, stdio: "ignore" } as const;
+		// .cmd launchers only run through cmd.exe on Windows; the shell option would pass the
+		// arguments unescaped, so cmd.exe gets a command line built here (see escapeCmdArgument)
+		const child = /\.(cmd|bat)$/i.test(cli)
+			? spawn(
+					process.env.comspec ?? "cmd.exe",
+					[
+						"/d",
+						"/s",
+						"/c",
+						`"${[cli.replace(CMD_META_CHARS, "^$1"), ...args.map(escapeCmdArgument)].join(" ")}"`,
+					],
+					{ ...options, windowsVerbatimArguments: true },
+				)
+			: spawn(cli, args, options);
+		child.once("error", reject);
+		child.once("spawn", () => {
+			child.unref();
+			resolve();
+		});
+	});
+}
+
+/**
+ * Escapes an argument of a .cmd launcher run by cmd.exe, so a profile name or URI holding
+ * quotes, % or & is passed as is: it is quoted for the program's own command line
+ * parser, then cmd.exe's special characters are escaped twice, for cmd.exe running the
+ * launcher and for the launcher passing its arguments on with %*
+ */
+function escapeCmdArgument(arg: string): string {
+	const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, "$1$1")}"`;
+	return quoted.replace(CMD_META_CHARS, "^^^$1");
+}
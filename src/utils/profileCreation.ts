@@ -0,0 +1,161 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { DEFAULT_PROFILE_NAME, getProfileRegistry } from "./profileRegistry";
+
+/**
+ * Offers to create profiles that a mapping names but that don't exist on this machine.
+ *
+ * Extensions can't create profiles directly, so the workbench's create / import
+ * profile commands are opened and the registry is polled until the profile shows up.
+ */
+
+const CREATE_PROFILE_COMMAND = "workbench.profiles.actions.createProfile";
+const IMPORT_PROFILE_COMMAND = "workbench.profiles.actions.importProfile";
+const MANAGE_PROFILES_COMMAND = "workbench.profiles.actions.manageProfiles";
+
+/** How long to wait for the user to finish creating the profile */
+const CREATE_TIMEOUT_MS = 5 * 60 * 1000;
+const CREATE_POLL_INTERVAL_MS = 1000;
+
+/** Profiles the user declined to create; not offered again until the window reloads */
+const declined = new Set<string>();
+
+interface CreationChoice extends vscode.QuickPickItem {
+	run: () => Promise<void>;
+}
+
+/**
+ * Makes sure a profile exists, offering to create it when it doesn't
+ * Returns true when the profile exists (or was just created)
+ */
+export async function ensureProfileExists(profileName: string): Promise<boolean> {
+	return (await profileExists(profileName)) || offerProfileCreation(profileName);
+}
+
+/**
+ * Returns true when a profile of that name exists on this machine
+ */
+export async function profileExists(profileName: string): Promise<boolean> {
+	return (
+		profileName === DEFAULT_PROFILE_NAME ||
+		(await getProfileRegistry().findByName(profileName)) !== undefined
+	);
+}
+
+/**
+ * Offers to create a missing profile and waits until the user has created it, which
+ * can take minutes
+ * Returns true when the profile was created
+ */
+export async function offerProfileCreation(profileName: string): Promise<boolean> {
+	if (declined.has(profileName)) {
+		return false;
+	}
+
+	const selection = await vscode.window.showWarningMessage(
+		`Profile "${profileName}" doesn't exist on this machine.`,
+		"Create Profile",
+	);
+	if (selection !== "Create Profile") {
+		declined.add(profileName);
+		return false;
+	}
+
+	const choice = await vscode.window.showQuickPick(await getCreationChoices(profileName), {
+		placeHolder: `How should "${profileName}" be created?`,
+	});
+	if (!choice) {
+		declined.add(profileName);
+		return false;
+	}
+
+	await choice.run();
+	return waitForProfile(profileName);
+}
+
+async function getCreationChoices(profileName: string): Promise<CreationChoice[]> {
+	const choices: CreationChoice[] = [];
+
+	// Exports committed to the repo, the one named after the profile first
+	const templates = await vscode.workspace.findFiles("**/*.code-profile", "**/node_modules/**", 20);
+	templates.sort(
+		(a, b) =>
+			Number(path.basename(b.fsPath, ".code-profile") === profileName) -
+			Number(path.basename(a.fsPath, ".code-profile") === profileName),
+	);
+	for (const template of templates) {
+		choices.push({
+			label: `$(cloud-download) Import ${vscode.workspace.asRelativePath(template)}`,
+			description: "Profile export committed to the workspace",
+			run: () => importProfile(template),
+		});
+	}
+
+	// The workbench's New Profile dialog creates empty profiles and copies alike
+	choices.push({
+		label: "$(add) New profile",
+		description: "Empty, or copied from an existing profile",
+		run: () =>
+			openWorkbenchCommand(
+				CREATE_PROFILE_COMMAND,
+				`Name the new profile "${profileName}" to continue. To copy an existing profile, choose it under "Copy from".`,
+			),
+	});
+
+	return choices;
+}
+
+async function importProfile(template: vscode.Uri): Promise<void> {
+	// The import command may ignore the argument and ask for a file, so keep the path at hand
+	await vscode.env.clipboard.writeText(template.fsPath);
+	await openWorkbenchCommand(
+		IMPORT_PROFILE_COMMAND,
+		`If asked for a file, paste ${vscode.workspace.asRelativePath(template)} (copied to the clipboard).`,
+		template,
+	);
+}
+
+/**
+ * Runs a workbench profile command, falling back to the profiles editor
+ */
+async function openWorkbenchCommand(
+	command: string,
+	hint: string,
+	...args: unknown[]
+): Promise<void> {
+	vscode.window.showInformationMessage(hint);
+	try {
+		await vscode.commands.executeCommand(command, ...args);
+	} catch (error) {
+		console.warn(`${command} failed, opening the profiles editor instead:`, error);
+		await vscode.commands.executeCommand(MANAGE_PROFILES_COMMAND);
+	}
+}
+
+/**
+ * Re-reads profiles until the new one appears, the user cancels, or the timeout passes
+ */
+async function waitForProfile(profileName: string): Promise<boolean> {
+	const registry = getProfileRegistry();
+
+	return vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: `Waiting for profile "${profileName}" to be created…`,
+			cancellable: true,
+		},
+		async (_progress, token) => {
+			const deadline = Date.now() + CREATE_TIMEOUT_MS;
+
+			while (Date.now() < deadline && !token.isCancellationRequested) {
+				await registry.refresh();
+				if (await registry.findByName(profileName)) {
+					return true;
+				}
+				await new Promise((resolve) => setTimeout(resolve, CREATE_POLL_INTERVAL_MS));
+			}
+
+			return false;
+		},
+	);
+}
@@ -1,47 +1,46 @@
 import * as vscode from "vscode";
-import * as fs from "fs";
-import * as path from "path";
-import * as os from "os";
+import { chooseWorkspaceProfile, isWorkspaceProfilePinned } from "./multiRoot";
+import { getSwitchStrategy, reopenWorkspaceInProfile } from "./profileAssociation";
+import { ensureProfileExists } from "./profileCreation";
+import { DEFAULT_PROFILE_NAME, getProfileRegistry } from "./profileRegistry";
+import { describeRule, type ProfileRule } from "./profileResolver";
+import {
+	loadRulesForUri,
+	resolveProfileForUri,
+	type WorkspaceProfileDecision,
+} from "./profileRules";
+import {
+	getProfileBeforeFileRules,
+	getWorkspaceSwitchHistory,
+	recordSwitch,
+	type SwitchTrigger,
+} from "./switchHistory";
+import { getSwitchMode, type SwitchPrompt } from "./switchPrompt";
+import type { ScheduledSwitchResult, SwitchScheduler } from "./switchScheduler";
 
 /**
- * Gets the profile ID to name mapping from VS Code/Cursor storage
- * Returns a map of profile ID -> profile name
+ * Gets the name of the profile the current window is running in
+ * Returns undefined if it can't be determined
+ *
+ * Non-default profiles give extensions a storage folder under User/profiles/<id>/,
+ * so the ID is read from the extension's global storage path first. Otherwise the
+ * workspace's entry in storage.json's profileAssociations is used; a workspace
+ * without an entry runs in the Default profile.
  */
-async function getProfileIdToNameMap(): Promise<Record<string, string>> {
-	const profileIdToNameMap: Record<string, string> = {};
-
-	try {
-		const userDataPath = getVSCodeUserDataPath();
-		if (!userDataPath) {
-			return profileIdToNameMap;
-		}
-
-		const userPath = path.join(userDataPath, "User");
-		const globalStoragePath = path.join(userPath, "globalStorage", "storage.json");
-
-		if (fs.existsSync(globalStoragePath)) {
-			try {
-				const globalStorageContent = fs.readFileSync(globalStoragePath, "utf8");
-				const globalStorage = JSON.parse(globalStorageContent);
-
-				// The userDataProfiles array contains profile mappings
-				if (globalStorage?.userDataProfiles && Array.isArray(globalStorage.userDataProfiles)) {
-					for (const profile of globalStorage.userDataProfiles) {
-						if (profile?.location && profile?.name) {
-							profileIdToNameMap[profile.location] = profile.name;
-						}
-					}
-					console.log("Loaded profile name mappings from globalStorage/storage.json:", profileIdToNameMap);
-				}
-			} catch (error) {
-				console.warn("Error reading globalStorage/storage.json:", error);
-			}
-		}
-	} catch (error) {
-		console.warn("Error getting profile ID to name map:", error);
+export async function getActiveProfileName(
+	globalStorageUri: vscode.Uri,
+): Promise<string | undefined> {
+	const registry = getProfileRegistry();
+
+	const storageMatch = globalStorageUri.fsPath
+		.replace(/\\/g, "/")
+		.match(/\/User\/profiles\/([^/]+)\//);
+	if (storageMatch) {
+		return (await registry.findById(storageMatch[1]))?.name ?? storageMatch[1];
 	}
 
-	return profileIdToNameMap;
+	const workspaceUri = getWorkspaceUri();
+	return workspaceUri ? getAssociatedProfileName(workspaceUri) : undefined;
 }
 
 /**
@@ -49,401 +48,622 @@ async function getProfileIdToNameMap(): Promise<Record<string, string>> {
  * Returns the profile ID if found, or null if not found
  */
 export async function getProfileIdFromName(profileName: string): Promise<string | null> {
-	// Default profile doesn't have a profile ID in the same way
-	// VS Code uses an empty string or special handling for default
-	if (profileName === "Default") {
-		// Try to find the default profile ID, or return empty string
-		// The default profile might be identified differently
+	// The Default profile has no folder under User/profiles/, its ID is ""
+	if (profileName === DEFAULT_PROFILE_NAME) {
 		return "";
 	}
 
-	try {
-		const profileIdToNameMap = await getProfileIdToNameMap();
-		
-		// Reverse lookup: find ID by name
-		for (const [profileId, name] of Object.entries(profileIdToNameMap)) {
-			if (name === profileName) {
-				return profileId;
-			}
-		}
+	const registry = getProfileRegistry();
 
-		// If not found in map, check if the name itself is an ID (fallback)
-		const userDataPath = getVSCodeUserDataPath();
-		if (userDataPath) {
-			const userPath = path.join(userDataPath, "User");
-			const profilesPath = path.join(userPath, "profiles");
-			
-			if (fs.existsSync(profilesPath)) {
-				const profileDir = path.join(profilesPath, profileName);
-				if (fs.existsSync(profileDir) && fs.statSync(profileDir).isDirectory()) {
-					// The name is actually an ID
-					return profileName;
-				}
-			}
-		}
+	// Fall back to treating the name as an ID, for profiles storage.json doesn't name
+	const profile = (await registry.findByName(profileName)) ?? (await registry.findById(profileName));
+	return profile ? profile.id : null;
+}
+
+/** Name of the last profile switchToProfile switched to in this window */
+let lastSwitchedProfile: string | undefined;
+
+/**
+ * Gets the profile the window is running in, preferring the last profile this
+ * extension switched to since it is more recent than what storage reports
+ */
+export async function getRunningProfileName(
+	globalStorageUri: vscode.Uri,
+): Promise<string | undefined> {
+	return lastSwitchedProfile ?? (await getActiveProfileName(globalStorageUri));
+}
+
+export type SwitchOutcome =
+	/** The running profile changed to the requested one */
+	| "switched"
+	/** The requested profile was already running, nothing was done */
+	| "alreadyActive"
+	/** The command ran but the profile didn't change, VS Code most likely showed its profile picker */
+	| "pickerShown"
+	/** The workspace was reopened in the profile (switchStrategy "association" or the fallback) */
+	| "reopened"
+	/** Every switch command failed */
+	| "failed";
+
+export interface SwitchResult {
+	outcome: SwitchOutcome;
+	profile: string;
+	/** Human readable explanation, for logs and messages */
+	reason: string;
+}
+
+/** Why a switch is made, for the switch history */
+export interface SwitchOrigin {
+	trigger: SwitchTrigger;
+	/** The rule that chose the profile, for automatic switches */
+	rule?: ProfileRule;
+}
+
+/** How long to wait for storage to report the new profile after a switch */
+const SWITCH_VERIFY_TIMEOUT_MS = 3000;
+const SWITCH_VERIFY_INTERVAL_MS = 250;
+
+/** How long after a manual switch startup leaves the profile alone (a live switch restarts the extension) */
+const MANUAL_SWITCH_GRACE_MS = 60_000;
+
+/**
+ * Switches to the specified profile by name, offering to create it when it is missing.
+ * Uses profileSwitcher.switchStrategy:
+ * the running window is switched, and with "auto" the workspace is reopened in the
+ * profile when that fails (see profileAssociation.ts)
+ * Switches that happen are recorded in the switch history (see switchHistory.ts)
+ */
+export async function switchToProfile(
+	profileName: string,
+	origin: SwitchOrigin = { trigger: "command" },
+): Promise<SwitchResult> {
+	const workspaceUri = getWorkspaceUri();
+	const previous =
+		lastSwitchedProfile ?? (workspaceUri ? await getAssociatedProfileName(workspaceUri) : undefined);
+
+	const result = await performSwitch(profileName);
+
+	if (result.outcome === "switched" || result.outcome === "reopened") {
+		await recordSwitch({
+			profile: profileName,
+			previous: previous !== profileName ? previous : undefined,
+			trigger: origin.trigger,
+			rule: origin.rule ? describeRule(origin.rule) : undefined,
+			ruleKind: origin.rule?.kind,
+			workspace: workspaceUri?.toString(),
+			workspaceName: vscode.workspace.name,
+		});
+	}
+
+	return result;
+}
+
+async function performSwitch(profileName: string): Promise<SwitchResult> {
+	// A teammate's mapping may name a profile this machine doesn't have yet
+	if (!(await ensureProfileExists(profileName))) {
+		return {
+			outcome: "failed",
+			profile: profileName,
+			reason: `profile "${profileName}" doesn't exist on this machine`,
+		};
+	}
+
+	const strategy = getSwitchStrategy();
+	if (strategy === "association") {
+		return switchByAssociation(profileName);
+	}
+
+	const result = await switchLive(profileName);
+	if ((result.outcome !== "failed" && result.outcome !== "pickerShown") || strategy === "live") {
+		return result;
+	}
+
+	// Reopening replaces the window, so ask first when it wasn't chosen explicitly
+	console.log(
+		`Live switch to ${profileName}: ${result.outcome} (${result.reason}), offering to reopen the workspace`,
+	);
+	const problem =
+		result.outcome === "pickerShown"
+			? `VS Code did not switch the window to profile "${profileName}"`
+			: `Could not switch the window to profile "${profileName}": ${result.reason}`;
+	const selection = await vscode.window.showWarningMessage(
+		`${problem}. Reopen this workspace in "${profileName}" instead?`,
+		"Reopen in Profile",
+	);
+	return selection === "Reopen in Profile" ? switchByAssociation(profileName) : result;
+}
+
+/**
+ * Reopens the workspace in the profile so the editor associates the two
+ */
+async function switchByAssociation(profileName: string): Promise<SwitchResult> {
+	const workspaceUri = getWorkspaceUri();
+	if (workspaceUri && (await getAssociatedProfileName(workspaceUri)) === profileName) {
+		return {
+			outcome: "alreadyActive",
+			profile: profileName,
+			reason: `"${profileName}" is already the workspace's profile`,
+		};
+	}
 
-		return null;
+	try {
+		await reopenWorkspaceInProfile(profileName);
+		lastSwitchedProfile = profileName;
+		return {
+			outcome: "reopened",
+			profile: profileName,
+			reason: `The workspace was reopened in "${profileName}"`,
+		};
 	} catch (error) {
-		console.error("Error getting profile ID from name:", error);
-		return null;
+		const reason = error instanceof Error ? error.message : String(error);
+		console.warn(`Could not reopen the workspace in profile ${profileName}: ${reason}`);
+		return {
+			outcome: "failed",
+			profile: profileName,
+			reason: `could not reopen the workspace: ${reason}`,
+		};
 	}
 }
 
 /**
- * Switches to the specified profile by name
- * Returns true if successful, false otherwise
- * 
- * Note: VS Code's profile switching command may not accept parameters directly.
- * This function tries multiple approaches to switch profiles.
+ * Switches the running window to the profile and verifies that it is running afterwards
+ *
+ * Note: VS Code's profile switching command may not accept parameters directly and
+ * may open its profile picker instead. This function tries multiple approaches, then
+ * checks the workspace's profile association in storage.json to see what happened.
  */
-export async function switchToProfile(profileName: string): Promise<boolean> {
+async function switchLive(profileName: string): Promise<SwitchResult> {
+	const result = (outcome: SwitchOutcome, reason: string): SwitchResult => ({
+		outcome,
+		profile: profileName,
+		reason,
+	});
+
 	try {
 		console.log(`Attempting to switch to profile: ${profileName}`);
 
+		const workspaceUri = getWorkspaceUri();
+		if (workspaceUri && (await getAssociatedProfileName(workspaceUri)) === profileName) {
+			lastSwitchedProfile = profileName;
+			return result("alreadyActive", `"${profileName}" is already the workspace's profile`);
+		}
+
 		// Get the profile ID for the given name
 		const profileId = await getProfileIdFromName(profileName);
-		
+
 		// Try multiple approaches to switch profiles
 		const approaches = [];
-		
-		if (profileName === "Default") {
+
+		if (profileName === DEFAULT_PROFILE_NAME) {
 			// For Default profile, try different approaches
 			approaches.push(
 				() => vscode.commands.executeCommand("workbench.action.profiles.switchProfile", ""),
-				() => vscode.commands.executeCommand("workbench.action.profiles.switchProfile", "Default"),
+				() =>
+					vscode.commands.executeCommand(
+						"workbench.action.profiles.switchProfile",
+						DEFAULT_PROFILE_NAME,
+					),
 			);
 		} else {
 			// For named profiles, try with ID first, then name
 			if (profileId !== null) {
-				approaches.push(
-					() => vscode.commands.executeCommand("workbench.action.profiles.switchProfile", profileId),
+				approaches.push(() =>
+					vscode.commands.executeCommand("workbench.action.profiles.switchProfile", profileId),
 				);
 			}
-			approaches.push(
-				() => vscode.commands.executeCommand("workbench.action.profiles.switchProfile", profileName),
+			approaches.push(() =>
+				vscode.commands.executeCommand("workbench.action.profiles.switchProfile", profileName),
 			);
 		}
 
-		// Try each approach until one succeeds
+		// Try each approach until one runs without error
 		for (const approach of approaches) {
 			try {
 				await approach();
-				// If we get here without error, the command executed
-				// However, the command might just open a picker, so we can't be 100% sure it worked
-				// We'll assume success if no error was thrown
-				console.log(`Successfully executed profile switch command for: ${profileName}`);
-				
-				// Give VS Code a moment to process the command
-				await new Promise(resolve => setTimeout(resolve, 500));
-				
-				return true;
 			} catch (error) {
 				// If the command doesn't exist or fails, try next approach
 				const errorMessage = error instanceof Error ? error.message : String(error);
 				console.log(`Profile switch approach failed: ${errorMessage}`);
 				continue;
 			}
+
+			// The command ran, but it might just have opened a picker: check what is running now
+			let switchResult: SwitchResult;
+			if (!workspaceUri) {
+				switchResult = result(
+					"switched",
+					"The switch command ran; without an open workspace the running profile can't be verified",
+				);
+			} else if (await waitForAssociatedProfile(workspaceUri, profileName)) {
+				switchResult = result("switched", `The workspace now runs in "${profileName}"`);
+			} else {
+				switchResult = result(
+					"pickerShown",
+					`The switch command ran, but the workspace still isn't associated with "${profileName}"`,
+				);
+			}
+			console.log(
+				`Profile switch to ${profileName}: ${switchResult.outcome} (${switchResult.reason})`,
+			);
+
+			if (switchResult.outcome === "switched") {
+				lastSwitchedProfile = profileName;
+			}
+
+			// Give VS Code a moment to process the command before the next switch
+			const settleDelay = vscode.workspace
+				.getConfiguration("profileSwitcher")
+				.get<number>("settleDelay", 500);
+			await new Promise((resolve) => setTimeout(resolve, Math.max(0, settleDelay)));
+
+			return switchResult;
 		}
 
 		// If all approaches failed, the command might not support parameters
-		// In this case, we'll return false and the caller can handle it
+		// In this case, we'll report a failure and the caller can handle it
 		console.warn(`All profile switch approaches failed for: ${profileName}`);
-		return false;
+		return result("failed", "the profile switch command failed");
 	} catch (error) {
 		console.error(`Error switching to profile ${profileName}:`, error);
-		return false;
+		return result("failed", error instanceof Error ? error.message : String(error));
 	}
 }
 
 /**
- * Gets available VS Code/Cursor profiles from the file system
- * VS Code API doesn't provide a documented command to list all profiles,
- * so we read them directly from the profiles directory
+ * Tells the user what a switch they asked for actually did
+ * @param scope What the profile was saved for, e.g. "this workspace" or `folder "backend/"`
  */
-export async function getAvailableProfiles(): Promise<string[]> {
-	const profiles: string[] = [];
+export function reportSwitchResult(result: ScheduledSwitchResult, scope: string): void {
+	const { outcome, profile, reason } = result;
+
+	switch (outcome) {
+		case "switched":
+			vscode.window.showInformationMessage(`Switched to profile "${profile}" for ${scope}.`);
+			return;
+		case "reopened":
+			vscode.window.showInformationMessage(
+				`Reopening the workspace in profile "${profile}" for ${scope}.`,
+			);
+			return;
+		case "alreadyActive":
+			vscode.window.showInformationMessage(
+				`Profile "${profile}" saved for ${scope}. It is already active.`,
+			);
+			return;
+		case "pickerShown":
+			vscode.window.showInformationMessage(
+				`Profile "${profile}" saved for ${scope}, but VS Code did not switch automatically. Choose "${profile}" in the profile picker to switch now.`,
+			);
+			return;
+		case "superseded":
+			vscode.window.showInformationMessage(
+				`Profile "${profile}" saved for ${scope}. A newer profile switch ran instead.`,
+			);
+			return;
+		case "profileMissing":
+			// Creating the profile is offered, and the switch runs once it exists
+			return;
+		case "failed":
+			vscode.window
+				.showWarningMessage(
+					`Profile "${profile}" saved for ${scope}, but failed to switch: ${reason}. Please reload the window to apply.`,
+					"Reload Window",
+				)
+				.then((selection) => {
+					if (selection === "Reload Window") {
+						vscode.commands.executeCommand("workbench.action.reloadWindow");
+					}
+				});
+			return;
+	}
+}
 
-	// Use file system method as it's the most reliable way to get all profiles
-	// VS Code API doesn't provide a documented command to list all profiles
-	try {
-		const fsProfiles = await getAvailableProfilesFromFileSystem();
-		if (fsProfiles.length > 0) {
-			console.log("Available profiles from file system:", fsProfiles);
-			return fsProfiles;
+/**
+ * Gets the URI storage.json associates profiles with: the .code-workspace file or the first folder
+ */
+export function getWorkspaceUri(): vscode.Uri | undefined {
+	return vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+}
+
+/**
+ * Gets the name of the profile storage.json associates the workspace with;
+ * a workspace without an association runs in the Default profile
+ */
+async function getAssociatedProfileName(workspaceUri: vscode.Uri): Promise<string> {
+	const registry = getProfileRegistry();
+	const location = await registry.getWorkspaceAssociation(workspaceUri);
+	const associated = location !== undefined ? await registry.findById(location) : undefined;
+
+	return associated?.name ?? DEFAULT_PROFILE_NAME;
+}
+
+/**
+ * Re-reads storage until the workspace is associated with the profile, or the timeout passes
+ */
+async function waitForAssociatedProfile(
+	workspaceUri: vscode.Uri,
+	profileName: string,
+): Promise<boolean> {
+	const deadline = Date.now() + SWITCH_VERIFY_TIMEOUT_MS;
+
+	while (Date.now() < deadline) {
+		await new Promise((resolve) => setTimeout(resolve, SWITCH_VERIFY_INTERVAL_MS));
+		const registry = getProfileRegistry();
+		await registry.refresh();
+		if ((await getAssociatedProfileName(workspaceUri)) === profileName) {
+			return true;
 		}
-	} catch (fsError) {
-		console.error("Error reading profiles from file system:", fsError);
 	}
 
-	// Always include Default profile if not already present
-	if (!profiles.includes("Default")) {
-		profiles.unshift("Default");
-	}
+	return false;
+}
 
-	// If no profiles found, at least return Default
-	if (profiles.length === 0) {
-		profiles.push("Default");
-	}
+/**
+ * Gets the names of the available VS Code/Cursor profiles, always including Default
+ * VS Code API doesn't provide a documented command to list all profiles,
+ * so they come from the profile registry
+ */
+export async function getAvailableProfiles(): Promise<string[]> {
+	const profiles = (await getProfileRegistry().getProfiles()).map((profile) => profile.name);
 
-	console.log("Available profiles:", profiles);
+	if (!profiles.includes(DEFAULT_PROFILE_NAME)) {
+		profiles.unshift(DEFAULT_PROFILE_NAME);
+	}
 
 	return profiles.sort();
 }
 
 /**
- * Fallback method: Gets available VS Code profiles from the user's profile directory
+ * Applies the profile configured in workspace settings on startup
  */
-async function getAvailableProfilesFromFileSystem(): Promise<string[]> {
-	const profiles: string[] = [];
+export async function applyProfileOnStartup(scheduler: SwitchScheduler): Promise<void> {
+	const workspaceFolders = vscode.workspace.workspaceFolders;
 
-	try {
-		// VS Code/Cursor stores profiles in different locations based on OS
-		const userDataPath = getVSCodeUserDataPath();
-		if (!userDataPath) {
-			console.warn("Could not find VS Code/Cursor user data path");
-			// Return Default profile if we can't find the path
-			profiles.push("Default");
-			return profiles;
-		}
+	if (!workspaceFolders || workspaceFolders.length === 0) {
+		return;
+	}
 
-		console.log("Found user data path:", userDataPath);
-		const userPath = path.join(userDataPath, "User");
-		const profilesPath = path.join(userPath, "profiles");
-		console.log("Checking profiles path:", profilesPath);
-
-		// Get profile name mappings using the helper function
-		const profileIdToNameMap = await getProfileIdToNameMap();
-
-		if (fs.existsSync(profilesPath)) {
-			const entries = fs.readdirSync(profilesPath, { withFileTypes: true });
-			console.log(`Found ${entries.length} entries in profiles directory`);
-
-			for (const entry of entries) {
-				if (entry.isDirectory()) {
-					// Profile directories are named with profile IDs, not names
-					// Skip hidden directories and system directories
-					if (!entry.name.startsWith(".") && entry.name !== "cache") {
-						const profileId = entry.name;
-						
-						// Get profile name from the map, default to ID if not found
-						const profileName = profileIdToNameMap[profileId] || profileId;
-						
-						profiles.push(profileName);
-						console.log(`Found profile: ${profileName} (ID: ${profileId})`);
-					}
-				}
-			}
-		} else {
-			console.warn(`Profiles directory does not exist: ${profilesPath}`);
-		}
+	// Package configs are read from the workspace file system before anything is resolved
+	const activeUri = getActiveFileUri();
+	await Promise.all([
+		...workspaceFolders.map((folder) => loadRulesForUri(folder.uri)),
+		...(activeUri ? [loadRulesForUri(activeUri)] : []),
+	]);
 
-		// Always include Default profile if not already present
-		if (!profiles.includes("Default")) {
-			profiles.unshift("Default");
-			console.log("Added Default profile to list");
-		}
+	// The active editor decides first, so its directory rules apply right away
+	// When folders of a multi-root workspace disagree, profileSwitcher.multiRootStrategy decides
+	const activeEditor = vscode.window.activeTextEditor;
+	const activeDecision = activeEditor ? getActiveFileDecision() : undefined;
+	const decision = await chooseWorkspaceProfile(
+		activeDecision?.profile && activeDecision.rule
+			? { profile: activeDecision.profile, rule: activeDecision.rule }
+			: undefined,
+	);
+
+	if (!decision) {
+		return;
+	}
 
-		// If no profiles found, at least return Default
-		if (profiles.length === 0) {
-			profiles.push("Default");
-			console.log("No profiles found, returning Default only");
-		}
-	} catch (error) {
-		console.error("Error reading profiles from file system:", error);
-		// Always return at least Default profile even on error
-		if (profiles.length === 0) {
-			profiles.push("Default");
-		}
+	const { profile, rule } = decision;
+
+	// A profile just picked by hand (e.g. Switch Back) restarted the extension; keep it
+	const lastSwitch = getWorkspaceSwitchHistory(getWorkspaceUri())[0];
+	if (
+		lastSwitch &&
+		(lastSwitch.trigger === "command" || lastSwitch.trigger === "switchBack") &&
+		Date.now() - lastSwitch.timestamp < MANUAL_SWITCH_GRACE_MS
+	) {
+		console.log(
+			`Keeping profile ${lastSwitch.profile}, chosen by hand moments ago, instead of ${profile}`,
+		);
+		return;
 	}
 
-	return profiles.sort();
+	// Actually switch to the configured profile
+	const result = await scheduler.switchTo(profile, { trigger: "startup", rule });
+	if (result.outcome !== "failed") {
+		console.log(
+			`Profile switch to ${profile} (${describeRule(rule)}): ${result.outcome} (${result.reason})`,
+		);
+	} else {
+		console.warn(`Failed to switch to profile: ${profile} (${describeRule(rule)}): ${result.reason}`);
+		// Show notification if switch failed
+		vscode.window
+			.showWarningMessage(
+				`Failed to switch to profile "${profile}" for the ${describeRule(rule)}: ${result.reason}. Please switch manually.`,
+				"Switch Profile",
+			)
+			.then((selection) => {
+				if (selection === "Switch Profile") {
+					vscode.commands.executeCommand("workbench.action.profiles.switchProfile");
+				}
+			});
+	}
 }
 
 /**
- * Gets the VS Code/Cursor user data path based on the OS
- * Checks multiple possible editor installations (VS Code, VS Code Insiders, Cursor, etc.)
+ * Resolves the profile decision for the file in the active text or notebook editor
+ * Returns undefined if there is no active editor or it is outside the workspace
  */
-function getVSCodeUserDataPath(): string | null {
-	const platform = process.platform;
-	const possiblePaths: string[] = [];
-
-	// Build list of possible paths based on OS
-	switch (platform) {
-		case 'darwin':
-			possiblePaths.push(
-				path.join(os.homedir(), 'Library', 'Application Support', 'Cursor'),
-				path.join(os.homedir(), 'Library', 'Application Support', 'Code'),
-				path.join(os.homedir(), 'Library', 'Application Support', 'Code - Insiders'),
-				path.join(os.homedir(), 'Library', 'Application Support', 'VSCodium'),
-			);
-			break;
-		case 'win32':
-			possiblePaths.push(
-				path.join(os.homedir(), 'AppData', 'Roaming', 'Cursor'),
-				path.join(os.homedir(), 'AppData', 'Roaming', 'Code'),
-				path.join(os.homedir(), 'AppData', 'Roaming', 'Code - Insiders'),
-				path.join(os.homedir(), 'AppData', 'Roaming', 'VSCodium'),
-			);
-			break;
-		case 'linux':
-			possiblePaths.push(
-				path.join(os.homedir(), '.config', 'Cursor'),
-				path.join(os.homedir(), '.config', 'Code'),
-				path.join(os.homedir(), '.config', 'Code - Insiders'),
-				path.join(os.homedir(), '.config', 'VSCodium'),
-			);
-			break;
-		default:
-			return null;
+export function getActiveFileDecision(): WorkspaceProfileDecision | undefined {
+	const active = getActiveFile();
+	return active ? resolveProfileForUri(active.uri, { languageId: active.languageId }) : undefined;
+}
+
+/**
+ * Resolves the profile the switcher picks for the active file: its own decision, except
+ * that the multi-root strategy picks the workspace profile when it is pinned
+ * Package configs and the git branch are read from the workspace first
+ * Returns undefined if there is no active editor, it is outside the workspace, or the
+ * "ask" strategy wasn't answered yet
+ */
+export async function getExpectedDecision(): Promise<WorkspaceProfileDecision | undefined> {
+	const activeUri = getActiveFileUri();
+	if (activeUri) {
+		await loadRulesForUri(activeUri);
 	}
 
-	// Check each possible path and return the first one that exists
-	for (const basePath of possiblePaths) {
-		if (fs.existsSync(basePath)) {
-			return basePath;
-		}
+	const decision = getActiveFileDecision();
+
+	// In a multi-root workspace the strategy, not the file's folder, picks the workspace profile
+	if (decision?.rule?.kind === "workspace" && isWorkspaceProfilePinned()) {
+		const choice = await chooseWorkspaceProfile(undefined, false);
+		return choice ? { ...decision, ...choice } : undefined;
 	}
 
-	return null;
+	return decision;
 }
 
 /**
- * Applies the profile configured in workspace settings on startup
+ * Gets the URI of the file in the active text or notebook editor
  */
-export async function applyProfileOnStartup(): Promise<void> {
-	const workspaceFolders = vscode.workspace.workspaceFolders;
-	
-	if (!workspaceFolders || workspaceFolders.length === 0) {
-		return;
-	}
+export function getActiveFileUri(): vscode.Uri | undefined {
+	return getActiveFile()?.uri;
+}
 
-	// Check workspace-level profile first
-	for (const folder of workspaceFolders) {
-		// Get workspace profile from VS Code configuration (reads from .vscode/settings.json)
-		const config = vscode.workspace.getConfiguration("profileSwitcher", folder.uri);
-		const workspaceProfile = config.get<string>("workspaceProfile");
-		
-		if (workspaceProfile) {
-			// Actually switch to the configured profile
-			const switched = await switchToProfile(workspaceProfile);
-			if (switched) {
-				console.log(`Successfully switched to workspace profile: ${workspaceProfile}`);
-			} else {
-				console.warn(`Failed to switch to workspace profile: ${workspaceProfile}`);
-				// Show notification if switch failed
-				vscode.window.showWarningMessage(
-					`Failed to switch to profile "${workspaceProfile}". Please switch manually.`,
-					'Switch Profile'
-				).then(selection => {
-					if (selection === 'Switch Profile') {
-						vscode.commands.executeCommand('workbench.action.profiles.switchProfile');
-					}
-				});
-			}
-			return; // Workspace profile takes precedence
-		}
+function getActiveFile(): { uri: vscode.Uri; languageId: string } | undefined {
+	const activeEditor = vscode.window.activeTextEditor;
+	const notebook = vscode.window.activeNotebookEditor?.notebook;
+
+	// Notebook cells are edited in text editors with their own URI scheme
+	if (notebook && (!activeEditor || activeEditor.document.uri.scheme === "vscode-notebook-cell")) {
+		return { uri: notebook.uri, languageId: notebook.notebookType };
 	}
 
-	// Check directory-specific profiles if active editor exists
-	const activeEditor = vscode.window.activeTextEditor;
-	if (activeEditor) {
-		const activeFilePath = activeEditor.document.uri.fsPath;
-		
-		// Find which workspace folder this file belongs to
-		const workspaceFolder = vscode.workspace.getWorkspaceFolder(activeEditor.document.uri);
-		if (workspaceFolder) {
-			const workspacePath = workspaceFolder.uri.fsPath;
-			
-			// Get directory profiles from configuration
-			const config = vscode.workspace.getConfiguration('profileSwitcher', workspaceFolder.uri);
-			const directoryProfiles = config.get<Record<string, string>>('directoryProfiles', {});
-			
-			// Find the most specific matching directory profile
-			let bestMatch: { path: string; profile: string } | undefined;
-			const relativePath = `${path.relative(workspacePath, activeFilePath).replace(/\\/g, "/")}/`;
-
-			for (const [dirPath, profile] of Object.entries(directoryProfiles)) {
-				const normalizedDirPath = dirPath.endsWith("/") ? dirPath : `${dirPath}/`;
-				
-				if (relativePath.startsWith(normalizedDirPath)) {
-					if (!bestMatch || normalizedDirPath.length > bestMatch.path.length) {
-						bestMatch = { path: normalizedDirPath, profile };
-					}
-				}
-			}
-			
-			if (bestMatch) {
-				// Actually switch to the configured profile
-				const switched = await switchToProfile(bestMatch.profile);
-				if (switched) {
-					console.log(`Successfully switched to directory profile: ${bestMatch.profile} for ${bestMatch.path}`);
-				} else {
-					console.warn(`Failed to switch to directory profile: ${bestMatch.profile}`);
-					// Show notification if switch failed
-					vscode.window.showWarningMessage(
-						`Failed to switch to profile "${bestMatch.profile}" for directory "${bestMatch.path}". Please switch manually.`,
-						'Switch Profile'
-					).then(selection => {
-						if (selection === 'Switch Profile') {
-							vscode.commands.executeCommand('workbench.action.profiles.switchProfile');
-						}
-					});
-				}
-			}
-		}
+	return activeEditor
+		? { uri: activeEditor.document.uri, languageId: activeEditor.document.languageId }
+		: undefined;
+}
+
+/**
+ * Gets the language used by language rules for an open document: the languageId of
+ * a text document, or the notebook type (e.g. "jupyter-notebook") of a notebook
+ * Returns undefined if the resource isn't open
+ */
+export function getOpenDocumentLanguage(uri: vscode.Uri): string | undefined {
+	const key = uri.toString();
+	const notebook = vscode.workspace.notebookDocuments.find((doc) => doc.uri.toString() === key);
+	if (notebook) {
+		return notebook.notebookType;
 	}
+	return vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === key)?.languageId;
 }
 
 /**
  * Applies profile when switching between files (called on document change)
+ * @param trigger What made the active file be re-evaluated, for the switch history
  */
-export async function applyProfileForActiveFile(): Promise<void> {
-	const activeEditor = vscode.window.activeTextEditor;
-	if (!activeEditor) {
+export async function applyProfileForActiveFile(
+	scheduler: SwitchScheduler,
+	prompt: SwitchPrompt,
+	trigger: SwitchTrigger = "editorChange",
+): Promise<void> {
+	const decision = await getExpectedDecision();
+
+	// A workspace file no rule maps may restore the profile used before entering a mapped folder
+	if (decision && !decision.profile) {
+		await restorePreviousProfile(scheduler, prompt, decision);
 		return;
 	}
 
-	const workspaceFolder = vscode.workspace.getWorkspaceFolder(activeEditor.document.uri);
-	if (!workspaceFolder) {
+	if (!decision?.profile || !decision.rule) {
 		return;
 	}
 
-	const workspacePath = workspaceFolder.uri.fsPath;
-	const config = vscode.workspace.getConfiguration('profileSwitcher', workspaceFolder.uri);
-	
-	// Check workspace profile first
-	const workspaceProfile = config.get<string>('workspaceProfile');
-	if (workspaceProfile) {
-		// Workspace profile applies to all files, so we don't need to switch again
-		// (it should have been applied on startup)
+	// A rule can override the switch mode (config file rule options)
+	const switchMode = decision.rule.options?.switchMode ?? getSwitchMode();
+	if (switchMode === "off") {
 		return;
 	}
 
-	// Check directory profiles
-	const directoryProfiles = config.get<Record<string, string>>("directoryProfiles", {});
-	const activeFilePath = activeEditor.document.uri.fsPath;
-	const relativePath = `${path.relative(workspacePath, activeFilePath).replace(/\\/g, "/")}/`;
+	// In prompt mode, ask before switching unless the profile is already running
+	if (
+		switchMode === "prompt" &&
+		!(await confirmSwitch(scheduler, decision.profile, decision.profile, () =>
+			prompt.confirm(decision),
+		))
+	) {
+		return;
+	}
 
-	let bestMatch: { path: string; profile: string } | undefined;
+	// Actually switch to the configured profile
+	// We'll do this silently to avoid too many notifications when switching files
+	const result = await scheduler.switchTo(decision.profile, { trigger, rule: decision.rule });
+	if (result.outcome !== "failed") {
+		console.log(
+			`Profile switch to ${decision.profile} (${describeRule(decision.rule)}): ${result.outcome} (${result.reason})`,
+		);
+	} else {
+		console.warn(
+			`Failed to switch to profile: ${decision.profile} (${describeRule(decision.rule)}): ${result.reason}`,
+		);
+	}
+}
 
-	for (const [dirPath, profile] of Object.entries(directoryProfiles)) {
-		const normalizedDirPath = dirPath.endsWith("/") ? dirPath : `${dirPath}/`;
-		
-		if (relativePath.startsWith(normalizedDirPath)) {
-			if (!bestMatch || normalizedDirPath.length > bestMatch.path.length) {
-				bestMatch = { path: normalizedDirPath, profile };
-			}
-		}
+/**
+ * Switches back to the profile the workspace ran in before the editor entered files
+ * mapped to another profile, when profileSwitcher.restorePreviousProfile is enabled
+ * @param decision The decision for the active file, which no rule maps
+ */
+async function restorePreviousProfile(
+	scheduler: SwitchScheduler,
+	prompt: SwitchPrompt,
+	decision: WorkspaceProfileDecision,
+): Promise<void> {
+	const restore = vscode.workspace
+		.getConfiguration("profileSwitcher")
+		.get<boolean>("restorePreviousProfile", false);
+	const switchMode = getSwitchMode();
+	if (!restore || switchMode === "off") {
+		return;
 	}
-	
-	if (bestMatch) {
-		// Actually switch to the configured profile
-		// We'll do this silently to avoid too many notifications when switching files
-		const switched = await switchToProfile(bestMatch.profile);
-		if (switched) {
-			console.log(`Successfully switched to directory profile: ${bestMatch.profile} for ${bestMatch.path}`);
-		} else {
-			console.warn(`Failed to switch to directory profile: ${bestMatch.profile}`);
-		}
+
+	const previous = getProfileBeforeFileRules(getWorkspaceUri());
+	if (!previous) {
+		return;
+	}
+
+	// Asked like any other automatic switch; it only goes ahead while no rule maps the active file
+	if (
+		switchMode === "prompt" &&
+		!(await confirmSwitch(scheduler, previous, undefined, () =>
+			prompt.confirmRestore(decision, previous),
+		))
+	) {
+		return;
+	}
+
+	const result = await scheduler.switchTo(previous, { trigger: "restore" });
+	if (result.outcome !== "failed") {
+		console.log(`Profile restored to ${previous}: ${result.outcome} (${result.reason})`);
+	} else {
+		console.warn(`Failed to restore profile ${previous}: ${result.reason}`);
+	}
+}
+
+/**
+ * Asks before an automatic switch in prompt mode, unless the profile is already running
+ * Returns true when the switch should go ahead: it was confirmed and the active file
+ * still resolves to the same profile (the answer may come after the editor moved on)
+ * @param expected The profile the active file resolves to when asking
+ */
+async function confirmSwitch(
+	scheduler: SwitchScheduler,
+	profile: string,
+	expected: string | undefined,
+	confirm: () => Promise<boolean>,
+): Promise<boolean> {
+	if (await scheduler.isActive(profile)) {
+		return false;
+	}
+	if (!(await confirm())) {
+		console.log(`Profile switch to ${profile} declined`);
+		return false;
+	}
+
+	if ((await getExpectedDecision())?.profile !== expected) {
+		console.log(`Profile switch to ${profile} skipped, the active file no longer resolves as asked`);
+		return false;
 	}
+	return true;
 }
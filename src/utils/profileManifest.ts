@@ -0,0 +1,108 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { readSettingsFile, SettingsFileError } from "./jsoncSettings";
+import { toFileName } from "./workspaceFs";
+
+/**
+ * Team profile manifest: a repo-committed description of what each profile needs,
+ * so everyone on the repo runs the same "python" profile.
+ *
+ * ```jsonc
+ * // .vscode/profile-manifest.json
+ * {
+ *   "version": 1,
+ *   "profiles": {
+ *     "python": {
+ *       "extensions": ["ms-python.python", "charliermarsh.ruff"],
+ *       "settings": { "editor.formatOnSave": true }
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * See manifestDrift.ts for the comparison with a profile.
+ */
+
+export const MANIFEST_FILE_NAME = "profile-manifest.json";
+
+/** Current version of the manifest format, see schemas/profile-manifest.schema.json */
+export const MANIFEST_VERSION = 1;
+
+export interface ProfileManifestEntry {
+	/** Extension IDs the profile must have installed */
+	extensions?: string[];
+	/** Report installed extensions the manifest doesn't list (default false) */
+	reportExtraExtensions?: boolean;
+	/** Settings the profile must have, with their expected values */
+	settings?: Record<string, unknown>;
+}
+
+export interface ProfileManifest {
+	version: number;
+	profiles: Record<string, ProfileManifestEntry>;
+}
+
+/**
+ * Gets the URI of a workspace folder's manifest
+ */
+export function getManifestUri(workspaceUri: vscode.Uri): vscode.Uri {
+	return vscode.Uri.joinPath(workspaceUri, ".vscode", MANIFEST_FILE_NAME);
+}
+
+/**
+ * Reads a workspace folder's manifest
+ * Returns undefined if the folder has none, throws SettingsFileError if it is invalid
+ */
+export async function readManifest(workspaceUri: vscode.Uri): Promise<ProfileManifest | undefined> {
+	const file = getManifestUri(workspaceUri);
+	const content = await readSettingsFile(file);
+	if (Object.keys(content).length === 0) {
+		return undefined;
+	}
+
+	const version = content.version ?? MANIFEST_VERSION;
+	if (typeof version !== "number" || version > MANIFEST_VERSION) {
+		throw new SettingsFileError(
+			toFileName(file),
+			`version ${String(version)} is not supported (expected ${MANIFEST_VERSION} or lower)`,
+		);
+	}
+
+	const profiles =
+		content.profiles && typeof content.profiles === "object" && !Array.isArray(content.profiles)
+			? (content.profiles as Record<string, ProfileManifestEntry>)
+			: {};
+
+	return { version, profiles };
+}
+
+/**
+ * Reads the extension IDs listed in a profile's extensions.json
+ * Returns undefined if the file doesn't exist or can't be read
+ */
+export function readProfileExtensions(profileLocation: string): string[] | undefined {
+	try {
+		const content = JSON.parse(
+			fs.readFileSync(path.join(profileLocation, "extensions.json"), "utf8"),
+		);
+		if (!Array.isArray(content)) {
+			return undefined;
+		}
+		return content
+			.map((entry) => entry?.identifier?.id)
+			.filter((id): id is string => typeof id === "string");
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Reads a profile's settings.json
+ * Returns an empty object if the file doesn't exist, throws SettingsFileError if it is invalid
+ */
+export async function readProfileSettings(
+	profileLocation: string,
+): Promise<Record<string, unknown>> {
+	return readSettingsFile(vscode.Uri.file(path.join(profileLocation, "settings.json")));
+}
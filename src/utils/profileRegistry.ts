@@ -0,0 +1,323 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { detectUserDataPath } from "./userDataPath";
+
+/**
+ * Profile metadata, loaded once and kept up to date by watching the editor's storage.
+ *
+ * VS Code has no API to list profiles, so a ProfileStorageReader reads them from
+ * the user data directory. The default reader understands the VS Code / Cursor
+ * layout (User/globalStorage/storage.json and User/profiles/); other layouts or a
+ * test fixture directory can be plugged in with ProfileRegistry.setReader.
+ */
+
+export const DEFAULT_PROFILE_NAME = "Default";
+
+/** Which parts of a profile are shared with the Default profile */
+export interface ProfileSharing {
+	settings: boolean;
+	extensions: boolean;
+	keybindings: boolean;
+}
+
+export interface ProfileInfo {
+	/** Profile ID: the folder name under User/profiles/, "" for the Default profile */
+	id: string;
+	name: string;
+	/** Codicon ID chosen for the profile, if any */
+	icon?: string;
+	/** Folder holding the profile's settings, extensions and keybindings */
+	location: string;
+	isDefault: boolean;
+	sharedWithDefault: ProfileSharing;
+}
+
+export interface ProfileStorageData {
+	profiles: ProfileInfo[];
+	/** Workspace URI -> ID of the profile the workspace is associated with */
+	workspaceAssociations: Record<string, string>;
+}
+
+/**
+ * Reads profiles from one storage layout
+ */
+export interface ProfileStorageReader {
+	/** Where profiles are read from, for logs */
+	readonly description: string;
+	read(): Promise<ProfileStorageData>;
+	/** Calls onChange whenever the underlying storage may have changed */
+	watch(onChange: () => void): vscode.Disposable;
+}
+
+/** The parts of globalStorage/storage.json the registry reads */
+interface StorageJson {
+	userDataProfiles?: unknown;
+	profileAssociations?: { workspaces?: unknown };
+}
+
+const NOT_SHARED: ProfileSharing = { settings: false, extensions: false, keybindings: false };
+
+/**
+ * Reads the VS Code / Cursor layout of a user data directory
+ */
+export class FileSystemProfileStorageReader implements ProfileStorageReader {
+	readonly description: string;
+	private readonly userPath: string;
+
+	constructor(userDataPath: string) {
+		this.userPath = path.join(userDataPath, "User");
+		this.description = this.userPath;
+	}
+
+	async read(): Promise<ProfileStorageData> {
+		const storage = await this.readStorageJson();
+		const profilesPath = path.join(this.userPath, "profiles");
+		const profiles: ProfileInfo[] = [
+			{
+				id: "",
+				name: DEFAULT_PROFILE_NAME,
+				location: this.userPath,
+				isDefault: true,
+				sharedWithDefault: NOT_SHARED,
+			},
+		];
+
+		// userDataProfiles holds every profile but Default
+		const entries = Array.isArray(storage?.userDataProfiles) ? storage.userDataProfiles : [];
+		for (const entry of entries) {
+			const profile = toProfileInfo(entry, profilesPath);
+			if (profile) {
+				profiles.push(profile);
+			}
+		}
+
+		// Profile folders storage.json doesn't know about are listed by ID
+		for (const id of await listProfileFolders(profilesPath)) {
+			if (!profiles.some((profile) => profile.id === id)) {
+				profiles.push({
+					id,
+					name: id,
+					location: path.join(profilesPath, id),
+					isDefault: false,
+					sharedWithDefault: NOT_SHARED,
+				});
+			}
+		}
+
+		const workspaces = storage?.profileAssociations?.workspaces;
+		const workspaceAssociations: Record<string, string> = {};
+		if (workspaces && typeof workspaces === "object") {
+			for (const [workspaceUri, id] of Object.entries(workspaces)) {
+				if (typeof id === "string") {
+					workspaceAssociations[workspaceUri] = id;
+				}
+			}
+		}
+
+		return { profiles, workspaceAssociations };
+	}
+
+	watch(onChange: () => void): vscode.Disposable {
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(
+				vscode.Uri.file(this.userPath),
+				"{globalStorage/storage.json,profiles/*}",
+			),
+		);
+		return vscode.Disposable.from(
+			watcher,
+			watcher.onDidCreate(onChange),
+			watcher.onDidChange(onChange),
+			watcher.onDidDelete(onChange),
+		);
+	}
+
+	private async readStorageJson(): Promise<StorageJson | undefined> {
+		const storagePath = path.join(this.userPath, "globalStorage", "storage.json");
+		try {
+			return JSON.parse(await fs.promises.readFile(storagePath, "utf8"));
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+				console.warn("Error reading globalStorage/storage.json:", error);
+			}
+			return undefined;
+		}
+	}
+}
+
+/**
+ * Caches the profiles of a storage reader and reports changes
+ */
+export class ProfileRegistry implements vscode.Disposable {
+	private data: Promise<ProfileStorageData> | undefined;
+	private snapshot: string | undefined;
+	private watcher: vscode.Disposable;
+	private readonly changeEmitter = new vscode.EventEmitter<ProfileInfo[]>();
+
+	/** Fires with the new profile list when profiles or workspace associations change */
+	readonly onDidChangeProfiles = this.changeEmitter.event;
+
+	constructor(private reader: ProfileStorageReader) {
+		this.watcher = reader.watch(() => this.refresh());
+	}
+
+	/**
+	 * Reads profiles from another storage, e.g. after the user data directory changed
+	 */
+	async setReader(reader: ProfileStorageReader): Promise<void> {
+		this.watcher.dispose();
+		this.reader = reader;
+		this.watcher = reader.watch(() => this.refresh());
+		await this.refresh();
+	}
+
+	/**
+	 * Gets every profile, Default first
+	 */
+	async getProfiles(): Promise<ProfileInfo[]> {
+		return (await this.load()).profiles;
+	}
+
+	/**
+	 * Finds a profile by its display name
+	 */
+	async findByName(name: string): Promise<ProfileInfo | undefined> {
+		return (await this.getProfiles()).find((profile) => profile.name === name);
+	}
+
+	/**
+	 * Finds a profile by its ID ("" for Default)
+	 */
+	async findById(id: string): Promise<ProfileInfo | undefined> {
+		return (await this.getProfiles()).find((profile) => profile.id === id);
+	}
+
+	/**
+	 * Gets the ID of the profile a workspace is associated with, if any
+	 */
+	async getWorkspaceAssociation(workspaceUri: vscode.Uri): Promise<string | undefined> {
+		return (await this.load()).workspaceAssociations[workspaceUri.toString()];
+	}
+
+	/**
+	 * Drops the cache and reloads; fires onDidChangeProfiles when something changed
+	 */
+	async refresh(): Promise<void> {
+		this.data = undefined;
+		const data = await this.load();
+		const snapshot = JSON.stringify(data);
+		if (snapshot !== this.snapshot) {
+			this.snapshot = snapshot;
+			this.changeEmitter.fire(data.profiles);
+		}
+	}
+
+	dispose(): void {
+		this.watcher.dispose();
+		this.changeEmitter.dispose();
+	}
+
+	private load(): Promise<ProfileStorageData> {
+		this.data ??= this.reader.read().then(
+			(data) => {
+				this.snapshot ??= JSON.stringify(data);
+				return data;
+			},
+			(error): ProfileStorageData => {
+				console.error(`Error reading profiles from ${this.reader.description}:`, error);
+				// Don't cache a failed read
+				this.data = undefined;
+				return { profiles: [], workspaceAssociations: {} };
+			},
+		);
+		return this.data;
+	}
+}
+
+let registry: ProfileRegistry | undefined;
+
+/**
+ * Gets the profile registry, reading the detected user data directory
+ */
+export function getProfileRegistry(): ProfileRegistry {
+	registry ??= new ProfileRegistry(createDefaultStorageReader());
+	return registry;
+}
+
+/**
+ * Creates a reader for the detected user data directory (see userDataPath.ts)
+ */
+export function createDefaultStorageReader(): ProfileStorageReader {
+	const detection = detectUserDataPath();
+	if (!detection.path) {
+		console.warn("Could not find the editor's user data directory:", detection.reason);
+		return emptyStorageReader;
+	}
+
+	console.log(`Reading profiles from ${detection.path}: ${detection.reason}`);
+	return new FileSystemProfileStorageReader(detection.path);
+}
+
+/** Used when no user data directory is found: only the Default profile exists */
+const emptyStorageReader: ProfileStorageReader = {
+	description: "no user data directory",
+	read: async () => ({
+		profiles: [
+			{
+				id: "",
+				name: DEFAULT_PROFILE_NAME,
+				location: "",
+				isDefault: true,
+				sharedWithDefault: NOT_SHARED,
+			},
+		],
+		workspaceAssociations: {},
+	}),
+	watch: () => new vscode.Disposable(() => {}),
+};
+
+/**
+ * Converts an entry of storage.json's userDataProfiles
+ */
+function toProfileInfo(entry: unknown, profilesPath: string): ProfileInfo | undefined {
+	if (!entry || typeof entry !== "object") {
+		return undefined;
+	}
+
+	const { location, name, icon, useDefaultFlags } = entry as Record<string, unknown>;
+	if (typeof location !== "string" || !location || typeof name !== "string" || !name) {
+		return undefined;
+	}
+
+	const flags = (useDefaultFlags ?? {}) as Record<string, unknown>;
+	return {
+		id: location,
+		name,
+		icon: typeof icon === "string" ? icon : undefined,
+		// Profiles outside the profiles folder are stored with a full URI
+		location: location.includes(":")
+			? vscode.Uri.parse(location).fsPath
+			: path.join(profilesPath, location),
+		isDefault: false,
+		sharedWithDefault: {
+			settings: flags.settings === true,
+			extensions: flags.extensions === true,
+			keybindings: flags.keybindings === true,
+		},
+	};
+}
+
+/**
+ * Lists the profile folders under User/profiles/, skipping hidden and cache folders
+ */
+async function listProfileFolders(profilesPath: string): Promise<string[]> {
+	try {
+		const entries = await fs.promises.readdir(profilesPath, { withFileTypes: true });
+		return entries
+			.filter((entry) => entry.isDirectory() && !entry.name.startsWith(".") && entry.name !== "cache")
+			.map((entry) => entry.name);
+	} catch {
+		return [];
+	}
+}
@@ -0,0 +1,589 @@
+import {
+	type CompiledPattern,
+	compilePattern,
+	matchFilePattern,
+	matchPattern,
+	normalizeRelativePath,
+} from "./pathMatcher";
+import { type ConditionContext, checkConditions, type RuleConditions } from "./ruleConditions";
+
+/**
+ * Profile resolution engine shared by startup, editor changes and the settings helpers.
+ *
+ * This module has no dependency on the VS Code API: callers collect the configured
+ * rules (see profileRules.ts) and pass them in together with the path to resolve,
+ * and get back a structured decision describing which rule won and why the others lost.
+ *
+ * Precedence:
+ * 1. Language rules beat file pattern rules, which beat directory rules, which beat
+ *    remote rules, which beat the workspace profile. The workspace profile is the
+ *    fallback for paths no other rule covers. File patterns only match the file itself,
+ *    never its folders; among them ties are broken like directory rules (5.).
+ *    Remote rules apply to every path of a workspace opened through a matching remote
+ *    authority; a full authority (`ssh-remote+build-box`) beats a remote name (`ssh-remote`).
+ * 2. `!` rules (directory or file pattern) never select a profile. A path they match
+ *    is excluded from every rule mapped to the same profile, e.g. `{"notebooks/": "data", "!notebooks/legacy/": "data"}`.
+ * 3. The directory rule anchored at the deepest path wins: a rule matching the file
+ *    itself beats one matching its folder, and a sub-folder beats its parent. A rule
+ *    is anchored at the shallowest path it matches, so `packages/**` counts as `packages/`.
+ * 4. Package configs (`.vscode-profile` files and `profileSwitcher` in package.json,
+ *    see packageConfig.ts) are directory rules anchored at their folder, so the
+ *    nearest one wins. At equal depth they beat directoryProfiles keys.
+ * 5. On equal depth, plain paths beat globs, then the key with more literal
+ *    (non-wildcard) characters wins, then the key declared first.
+ * 6. When the same key is configured in several settings scopes, the narrower scope
+ *    wins (personal, then workspace folder, then workspace, then user) and the others
+ *    are shadowed. Within a scope, the profile switcher config file comes before settings.json.
+ * 7. Rules with `"enabled": false` are ignored.
+ * 8. Rules with `when` conditions (see ruleConditions.ts) only apply while every
+ *    condition holds. Otherwise they are skipped without shadowing the same key in
+ *    wider scopes, so a wider scope can hold the rule to fall back to.
+ */
+
+/**
+ * Settings scope a rule was read from, highest precedence first. "personal" mappings
+ * live in the extension's global state and are never committed.
+ */
+export type RuleScope = "personal" | "workspaceFolder" | "workspace" | "user";
+
+export const RULE_SCOPE_ORDER: readonly RuleScope[] = [
+	"personal",
+	"workspaceFolder",
+	"workspace",
+	"user",
+];
+
+export interface RuleSource {
+	scope: RuleScope;
+	/**
+	 * Settings file the rule is defined in, when known: a path for local files, a URI
+	 * for remote and virtual workspaces (see workspaceFs.ts)
+	 */
+	file?: string;
+}
+
+export type ProfileRuleKind =
+	| "workspace"
+	| "directory"
+	| "package"
+	| "filePattern"
+	| "language"
+	| "remote";
+
+export type RuleSwitchMode = "auto" | "prompt" | "off";
+
+/** Per-rule options, available where a rule is written as an object */
+export interface RuleOptions {
+	/** Overrides profileSwitcher.switchMode when this rule selects the profile */
+	switchMode?: RuleSwitchMode;
+	/** Set to false to keep a rule without applying it */
+	enabled?: boolean;
+	/** Free-form note shown in explanations */
+	description?: string;
+	/** Conditions besides the path, e.g. a time window or git branch */
+	when?: RuleConditions;
+}
+
+export interface RuleDefinition extends RuleOptions {
+	profile: string;
+}
+
+/** A rule value is either a profile name or a profile name with options */
+export type RuleValue = string | RuleDefinition;
+
+/** Raw rule settings of one scope, as written in settings or a config file */
+export interface RuleSettings {
+	workspaceProfile?: RuleValue;
+	directoryProfiles?: Record<string, RuleValue>;
+	filePatternProfiles?: Record<string, RuleValue>;
+	languageProfiles?: Record<string, RuleValue>;
+	remoteProfiles?: Record<string, RuleValue>;
+}
+
+export interface ProfileRule {
+	kind: ProfileRuleKind;
+	/**
+	 * The directoryProfiles or filePatternProfiles key, the folder of a package config
+	 * (relative, "" for the workspace root), the languageId of a language rule or the
+	 * remote name or authority of a remote rule
+	 */
+	pattern?: string;
+	profile: string;
+	source: RuleSource;
+	options?: RuleOptions;
+}
+
+/**
+ * What is known about the resource being resolved besides its path, including the
+ * values `when` conditions are checked against
+ */
+export interface ResolveContext extends ConditionContext {
+	/** Language of the open document, when resolving an editor */
+	languageId?: string;
+	/** Remote authority of the workspace folder (e.g. `ssh-remote+build-box`), when remote */
+	remoteAuthority?: string;
+}
+
+export type RuleOutcome =
+	/** The rule chose the profile */
+	| "selected"
+	/** The rule's pattern does not match the path */
+	| "noMatch"
+	/** The rule matched but a more specific rule won */
+	| "outranked"
+	/** The rule matched but a `!` rule excluded its profile for this path */
+	| "excluded"
+	/** A `!` rule; it never selects a profile itself */
+	| "negation"
+	/** The same key is configured in a narrower settings scope */
+	| "shadowed"
+	/** The rule's `when` conditions don't hold */
+	| "inactive"
+	/** The rule has `"enabled": false` */
+	| "disabled";
+
+export interface RuleEvaluation {
+	rule: ProfileRule;
+	matched: boolean;
+	outcome: RuleOutcome;
+	/** Human readable explanation of the outcome */
+	reason: string;
+}
+
+export interface ProfileDecision {
+	/** The path that was resolved, relative to the workspace folder */
+	relativePath: string;
+	/** The chosen profile name, or undefined when no rule applies */
+	profile?: string;
+	/** The rule that chose the profile */
+	rule?: ProfileRule;
+	/** Every rule that was considered, narrowest scope first */
+	evaluations: RuleEvaluation[];
+}
+
+interface Candidate {
+	evaluation: RuleEvaluation;
+	pattern: CompiledPattern;
+	depth: number;
+}
+
+/**
+ * Builds the rules defined by one settings scope from its raw setting values
+ */
+export function rulesFromSettings(source: RuleSource, settings: RuleSettings): ProfileRule[] {
+	const rules: ProfileRule[] = [];
+
+	const workspaceRule = toRule("workspace", undefined, settings.workspaceProfile, source);
+	if (workspaceRule) {
+		rules.push(workspaceRule);
+	}
+
+	for (const [pattern, value] of Object.entries(settings.directoryProfiles ?? {})) {
+		const rule = toRule("directory", pattern, value, source);
+		if (rule) {
+			rules.push(rule);
+		}
+	}
+
+	for (const [pattern, value] of Object.entries(settings.filePatternProfiles ?? {})) {
+		const rule = toRule("filePattern", pattern, value, source);
+		if (rule) {
+			rules.push(rule);
+		}
+	}
+
+	for (const [languageId, value] of Object.entries(settings.languageProfiles ?? {})) {
+		const rule = toRule("language", languageId, value, source);
+		if (rule) {
+			rules.push(rule);
+		}
+	}
+
+	for (const [remote, value] of Object.entries(settings.remoteProfiles ?? {})) {
+		const rule = toRule("remote", remote, value, source);
+		if (rule) {
+			rules.push(rule);
+		}
+	}
+
+	return rules;
+}
+
+/**
+ * Builds the rule for a package config found in a folder (relative to the workspace folder)
+ */
+export function packageRule(
+	folder: string,
+	value: RuleValue | undefined,
+	source: RuleSource,
+): ProfileRule | undefined {
+	return toRule("package", normalizeRelativePath(folder), value, source);
+}
+
+/**
+ * Resolves the profile for a path relative to its workspace folder
+ */
+export function resolveProfile(
+	relativePath: string,
+	rules: ProfileRule[],
+	context: ResolveContext = {},
+): ProfileDecision {
+	const normalizedPath = normalizeRelativePath(relativePath);
+	const evaluations: RuleEvaluation[] = [];
+	const effectiveKeys = new Map<string, ProfileRule>();
+	const candidates: Candidate[] = [];
+	const fileCandidates: Candidate[] = [];
+	const negations: { rule: ProfileRule; pattern: CompiledPattern }[] = [];
+	const remoteEvaluations: RuleEvaluation[] = [];
+	let languageEvaluation: RuleEvaluation | undefined;
+	let workspaceEvaluation: RuleEvaluation | undefined;
+
+	for (const rule of sortByScope(rules)) {
+		const key = ruleKey(rule);
+		const shadowedBy = effectiveKeys.get(key);
+		if (shadowedBy) {
+			evaluations.push({
+				rule,
+				matched: false,
+				outcome: "shadowed",
+				reason: `Overridden by the same ${describeRule(rule)} in ${describeSource(shadowedBy.source)}`,
+			});
+			continue;
+		}
+
+		// Inactive rules don't shadow, so the same key in a wider scope can apply instead
+		const unmet = rule.options?.when ? checkConditions(rule.options.when, context) : undefined;
+		if (unmet) {
+			evaluations.push({ rule, matched: false, outcome: "inactive", reason: unmet });
+			continue;
+		}
+		effectiveKeys.set(key, rule);
+
+		if (rule.options?.enabled === false) {
+			evaluations.push({ rule, matched: false, outcome: "disabled", reason: "Rule is disabled" });
+			continue;
+		}
+
+		if (rule.kind === "workspace") {
+			workspaceEvaluation = {
+				rule,
+				matched: true,
+				outcome: "outranked",
+				reason: "Workspace profile applies to every path",
+			};
+			evaluations.push(workspaceEvaluation);
+			continue;
+		}
+
+		if (rule.kind === "language") {
+			const matched = context.languageId !== undefined && rule.pattern === context.languageId;
+			const evaluation: RuleEvaluation = {
+				rule,
+				matched,
+				outcome: "noMatch",
+				reason:
+					context.languageId === undefined
+						? "No document language to match"
+						: `Document language is "${context.languageId}"`,
+			};
+			evaluations.push(evaluation);
+			if (matched) {
+				languageEvaluation = evaluation;
+			}
+			continue;
+		}
+
+		if (rule.kind === "remote") {
+			const matched = matchRemote(rule.pattern ?? "", context.remoteAuthority) !== undefined;
+			const evaluation: RuleEvaluation = {
+				rule,
+				matched,
+				outcome: "noMatch",
+				reason:
+					context.remoteAuthority === undefined
+						? "Workspace is not opened through a remote"
+						: `Remote authority is "${context.remoteAuthority}"`,
+			};
+			evaluations.push(evaluation);
+			if (matched) {
+				remoteEvaluations.push(evaluation);
+			}
+			continue;
+		}
+
+		if (rule.kind === "package") {
+			// Package configs are found by walking up from the path, anchored at their folder
+			const anchor = normalizeRelativePath(rule.pattern ?? "");
+			const matched = !anchor || normalizedPath === anchor || normalizedPath.startsWith(`${anchor}/`);
+			const evaluation: RuleEvaluation = {
+				rule,
+				matched,
+				outcome: "noMatch",
+				reason: "Path is not inside this package",
+			};
+			evaluations.push(evaluation);
+			if (matched) {
+				candidates.push({
+					evaluation,
+					pattern: compilePattern(anchor),
+					depth: anchor ? anchor.split("/").length : 0,
+				});
+			}
+			continue;
+		}
+
+		const pattern = compilePattern(rule.pattern ?? "");
+		const depth =
+			rule.kind === "filePattern"
+				? matchFilePattern(pattern, normalizedPath)
+				: matchPattern(pattern, normalizedPath);
+
+		if (pattern.negated) {
+			const evaluation: RuleEvaluation = {
+				rule,
+				matched: depth !== undefined,
+				outcome: "negation",
+				reason:
+					depth !== undefined
+						? `Excludes this path from rules mapped to "${rule.profile}"`
+						: "Exclusion does not match this path",
+			};
+			evaluations.push(evaluation);
+			if (depth !== undefined) {
+				negations.push({ rule, pattern });
+			}
+			continue;
+		}
+
+		const evaluation: RuleEvaluation = {
+			rule,
+			matched: depth !== undefined,
+			outcome: "noMatch",
+			reason: "Pattern does not match this path",
+		};
+		evaluations.push(evaluation);
+		if (depth !== undefined) {
+			(rule.kind === "filePattern" ? fileCandidates : candidates).push({
+				evaluation,
+				pattern,
+				depth,
+			});
+		}
+	}
+
+	const bestFile = pickBestCandidate(fileCandidates, negations);
+	const best = pickBestCandidate(candidates, negations);
+	const bestRemote = pickBestRemote(remoteEvaluations, context.remoteAuthority);
+
+	// Highest tier first: language rule, then the best file pattern, then the best
+	// directory rule, then the best remote rule, then the workspace profile
+	const winner =
+		languageEvaluation ??
+		bestFile?.evaluation ??
+		best?.evaluation ??
+		bestRemote ??
+		workspaceEvaluation;
+
+	for (const evaluation of [
+		...fileCandidates.map((candidate) => candidate.evaluation),
+		...candidates.map((candidate) => candidate.evaluation),
+		...remoteEvaluations,
+	]) {
+		if (evaluation === winner || evaluation.outcome === "excluded") {
+			continue;
+		}
+		evaluation.outcome = "outranked";
+		evaluation.reason = `Less specific than the ${describeRule(winner?.rule ?? evaluation.rule)}`;
+	}
+
+	if (workspaceEvaluation && winner && winner !== workspaceEvaluation) {
+		workspaceEvaluation.reason = `The ${describeRule(winner.rule)} is more specific`;
+	}
+
+	if (!winner) {
+		return { relativePath: normalizedPath, evaluations };
+	}
+
+	winner.outcome = "selected";
+	if (winner === languageEvaluation) {
+		winner.reason = "Language rules take precedence over file pattern, directory and workspace rules";
+	} else if (winner === bestFile?.evaluation) {
+		winner.reason = "File pattern rules take precedence over directory and workspace rules";
+	} else if (winner === best?.evaluation) {
+		winner.reason =
+			winner.rule.kind === "package"
+				? `Nearest package config (anchored at depth ${best.depth})`
+				: `Most specific directory rule (anchored at depth ${best.depth})`;
+	} else if (winner === bestRemote) {
+		winner.reason = "No path rule matches, using the profile of this remote";
+	} else {
+		winner.reason = "No other rule matches, using the workspace profile";
+	}
+
+	return {
+		relativePath: normalizedPath,
+		profile: winner.rule.profile,
+		rule: winner.rule,
+		evaluations,
+	};
+}
+
+/**
+ * Short label for a rule, used in traces and messages
+ */
+export function describeRule(rule: ProfileRule): string {
+	switch (rule.kind) {
+		case "workspace":
+			return "workspace profile";
+		case "directory":
+			return `directory rule "${rule.pattern}"`;
+		case "package":
+			return `package config in "${rule.pattern || "./"}"`;
+		case "filePattern":
+			return `file pattern "${rule.pattern}"`;
+		case "language":
+			return `language rule "${rule.pattern}"`;
+		case "remote":
+			return `remote rule "${rule.pattern}"`;
+	}
+}
+
+/**
+ * Human readable name of a settings scope
+ */
+export function describeScope(scope: RuleScope): string {
+	switch (scope) {
+		case "personal":
+			return "personal";
+		case "workspaceFolder":
+			return "workspace folder";
+		case "workspace":
+			return "workspace";
+		case "user":
+			return "user";
+	}
+}
+
+/**
+ * Human readable origin of a rule: its scope and, when known, its file
+ */
+export function describeSource(source: RuleSource): string {
+	const scope = `${describeScope(source.scope)} settings`;
+	return source.file ? `${scope} (${source.file})` : scope;
+}
+
+/**
+ * Stable sort of rules so that narrower scopes come first
+ */
+function sortByScope(rules: ProfileRule[]): ProfileRule[] {
+	return [...rules].sort(
+		(a, b) => RULE_SCOPE_ORDER.indexOf(a.source.scope) - RULE_SCOPE_ORDER.indexOf(b.source.scope),
+	);
+}
+
+/**
+ * Identity of a rule across scopes: the same key in two scopes is one setting
+ */
+function ruleKey(rule: ProfileRule): string {
+	return rule.kind === "workspace" ? "workspace" : `${rule.kind}:${rule.pattern}`;
+}
+
+/**
+ * Normalizes a string or object rule value; returns undefined for empty or invalid values
+ */
+function toRule(
+	kind: ProfileRuleKind,
+	pattern: string | undefined,
+	value: RuleValue | undefined,
+	source: RuleSource,
+): ProfileRule | undefined {
+	if (typeof value === "string") {
+		return value ? { kind, pattern, profile: value, source } : undefined;
+	}
+
+	if (value && typeof value === "object" && typeof value.profile === "string" && value.profile) {
+		// `when` is kept as written; checkConditions treats malformed conditions as unmet
+		const { profile, ...options } = value;
+		return { kind, pattern, profile, source, options };
+	}
+
+	return undefined;
+}
+
+/**
+ * Matches a remoteProfiles key against a remote authority: the key is either the full
+ * authority or the remote name before its "+" (e.g. `wsl` for `wsl+Ubuntu`)
+ * Returns 2 for a full authority match, 1 for a remote name match, undefined otherwise
+ */
+function matchRemote(key: string, authority: string | undefined): number | undefined {
+	if (authority === undefined) {
+		return undefined;
+	}
+
+	const normalizedKey = key.toLowerCase();
+	const normalizedAuthority = authority.toLowerCase();
+	if (normalizedKey === normalizedAuthority) {
+		return 2;
+	}
+	return normalizedKey === normalizedAuthority.split("+")[0] ? 1 : undefined;
+}
+
+/**
+ * Picks the matching remote rule for the closest match, the rule declared first on ties
+ */
+function pickBestRemote(
+	evaluations: RuleEvaluation[],
+	authority: string | undefined,
+): RuleEvaluation | undefined {
+	let best: RuleEvaluation | undefined;
+	let bestMatch = 0;
+	for (const evaluation of evaluations) {
+		const match = matchRemote(evaluation.rule.pattern ?? "", authority) ?? 0;
+		if (match > bestMatch) {
+			best = evaluation;
+			bestMatch = match;
+		}
+	}
+	return best;
+}
+
+/**
+ * Picks the winning candidate of one tier; candidates whose profile is excluded by
+ * a matching `!` rule are marked and skipped
+ */
+function pickBestCandidate(
+	candidates: Candidate[],
+	negations: { rule: ProfileRule }[],
+): Candidate | undefined {
+	let best: Candidate | undefined;
+	for (const candidate of candidates) {
+		const negation = negations.find(({ rule }) => rule.profile === candidate.evaluation.rule.profile);
+		if (negation) {
+			candidate.evaluation.outcome = "excluded";
+			candidate.evaluation.reason = `Excluded by "${negation.rule.pattern}"`;
+			continue;
+		}
+		if (!best || compareCandidates(candidate, best) > 0) {
+			best = candidate;
+		}
+	}
+	return best;
+}
+
+/**
+ * Orders two matching rules of the same tier; a positive result means `a` wins
+ */
+function compareCandidates(a: Candidate, b: Candidate): number {
+	if (a.depth !== b.depth) {
+		return a.depth - b.depth;
+	}
+	// A package config beats a directoryProfiles rule for the same folder
+	const aIsPackage = a.evaluation.rule.kind === "package";
+	if (aIsPackage !== (b.evaluation.rule.kind === "package")) {
+		return aIsPackage ? 1 : -1;
+	}
+	if (a.pattern.isGlob !== b.pattern.isGlob) {
+		return a.pattern.isGlob ? -1 : 1;
+	}
+	return a.pattern.literalLength - b.pattern.literalLength;
+}
@@ -0,0 +1,154 @@
+import * as vscode from "vscode";
+import { getConfigFileSettings } from "./configFile";
+import { getGitBranch, loadGitBranch } from "./gitBranch";
+import { getPackageRules, loadPackageConfigs } from "./packageConfig";
+import { getPersonalMapping } from "./personalMappings";
+import {
+	type ProfileDecision,
+	type ProfileRule,
+	type ResolveContext,
+	type RuleSettings,
+	type RuleSource,
+	resolveProfile,
+	rulesFromSettings,
+} from "./profileResolver";
+import { getRelativePath, toFileName } from "./workspaceFs";
+
+export interface WorkspaceProfileDecision extends ProfileDecision {
+	workspaceFolder: vscode.WorkspaceFolder;
+}
+
+/**
+ * Collects the profile rules that apply to a workspace folder from every scope:
+ * personal mappings, the folder's config file and settings, the workspace file
+ * and user settings
+ */
+export function collectProfileRules(folder: vscode.WorkspaceFolder): ProfileRule[] {
+	const config = vscode.workspace.getConfiguration("profileSwitcher", folder.uri);
+	const workspaceProfile = config.inspect<string>("workspaceProfile");
+	const directoryProfiles = config.inspect<Record<string, string>>("directoryProfiles");
+	const filePatternProfiles = config.inspect<Record<string, string>>("filePatternProfiles");
+	const languageProfiles = config.inspect<Record<string, string>>("languageProfiles");
+	const remoteProfiles = config.inspect<Record<string, string>>("remoteProfiles");
+	const folderSettingsFile = toFileName(vscode.Uri.joinPath(folder.uri, ".vscode", "settings.json"));
+	const workspaceFile = vscode.workspace.workspaceFile;
+
+	const scopes: { source: RuleSource; settings: RuleSettings }[] = [
+		{ source: { scope: "personal" }, settings: getPersonalMapping(folder.uri) },
+	];
+
+	// The dedicated config file comes before settings.json within the folder scope
+	const configFile = getConfigFileSettings(folder.uri);
+	if (configFile) {
+		scopes.push({
+			source: { scope: "workspaceFolder", file: configFile.file },
+			settings: configFile.config,
+		});
+	}
+
+	if (workspaceFile) {
+		// Multi-root (or saved) workspace: folder settings and .code-workspace settings differ
+		scopes.push(
+			{
+				source: { scope: "workspaceFolder", file: folderSettingsFile },
+				settings: {
+					workspaceProfile: workspaceProfile?.workspaceFolderValue,
+					directoryProfiles: directoryProfiles?.workspaceFolderValue,
+					filePatternProfiles: filePatternProfiles?.workspaceFolderValue,
+					languageProfiles: languageProfiles?.workspaceFolderValue,
+					remoteProfiles: remoteProfiles?.workspaceFolderValue,
+				},
+			},
+			{
+				source: {
+					scope: "workspace",
+					file: workspaceFile.scheme === "untitled" ? undefined : toFileName(workspaceFile),
+				},
+				settings: {
+					workspaceProfile: workspaceProfile?.workspaceValue,
+					directoryProfiles: directoryProfiles?.workspaceValue,
+					filePatternProfiles: filePatternProfiles?.workspaceValue,
+					languageProfiles: languageProfiles?.workspaceValue,
+					remoteProfiles: remoteProfiles?.workspaceValue,
+				},
+			},
+		);
+	} else {
+		// Single folder: the workspace settings are the folder's .vscode/settings.json
+		scopes.push({
+			source: { scope: "workspaceFolder", file: folderSettingsFile },
+			settings: {
+				workspaceProfile: workspaceProfile?.workspaceValue,
+				directoryProfiles: directoryProfiles?.workspaceValue,
+				filePatternProfiles: filePatternProfiles?.workspaceValue,
+				languageProfiles: languageProfiles?.workspaceValue,
+				remoteProfiles: remoteProfiles?.workspaceValue,
+			},
+		});
+	}
+
+	scopes.push({
+		source: { scope: "user" },
+		settings: {
+			workspaceProfile: workspaceProfile?.globalValue,
+			directoryProfiles: directoryProfiles?.globalValue,
+			filePatternProfiles: filePatternProfiles?.globalValue,
+			languageProfiles: languageProfiles?.globalValue,
+			remoteProfiles: remoteProfiles?.globalValue,
+		},
+	});
+
+	return scopes.flatMap((scope) => rulesFromSettings(scope.source, scope.settings));
+}
+
+/**
+ * Resolves the profile for a file or folder URI.
+ * Returns undefined when the URI is not inside a workspace folder.
+ */
+export function resolveProfileForUri(
+	uri: vscode.Uri,
+	context: ResolveContext = {},
+): WorkspaceProfileDecision | undefined {
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+	if (!workspaceFolder) {
+		return undefined;
+	}
+
+	const relativePath = getRelativePath(workspaceFolder.uri, uri);
+	const rules = [
+		...collectProfileRules(workspaceFolder),
+		...getPackageRules(workspaceFolder.uri, relativePath),
+	];
+	const decision = resolveProfile(relativePath, rules, {
+		remoteAuthority: getRemoteAuthority(workspaceFolder),
+		remoteName: vscode.env.remoteName,
+		branch: getGitBranch(workspaceFolder.uri),
+		env: process.env,
+		now: new Date(),
+		...context,
+	});
+
+	return { ...decision, workspaceFolder };
+}
+
+/**
+ * Reads the package configs and git branch a URI is resolved with from the workspace
+ * file system; awaited before switching so the first resolveProfileForUri already sees them
+ */
+export async function loadRulesForUri(uri: vscode.Uri): Promise<void> {
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+	if (workspaceFolder) {
+		await Promise.all([
+			loadPackageConfigs(workspaceFolder.uri, getRelativePath(workspaceFolder.uri, uri)),
+			loadGitBranch(workspaceFolder.uri),
+		]);
+	}
+}
+
+/**
+ * Gets the remote authority a workspace folder is opened through (e.g. `wsl+Ubuntu`)
+ * Returns undefined for local and virtual workspace folders
+ */
+export function getRemoteAuthority(folder: vscode.WorkspaceFolder): string | undefined {
+	return folder.uri.scheme === "vscode-remote" ? folder.uri.authority : undefined;
+}
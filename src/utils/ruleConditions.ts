@@ -0,0 +1,200 @@
+import { compilePattern } from "./pathMatcher";
+
+/**
+ * Conditions a rule can require besides matching the path (the `when` rule option),
+ * e.g. `{ "days": ["mon", "tue", "wed", "thu", "fri"], "time": "09:00-17:30" }` or
+ * `{ "branch": "review/*" }`. Every condition given must hold for the rule to apply.
+ *
+ * Like profileResolver.ts this module doesn't use the VS Code API; the values
+ * conditions are checked against come from the caller (see profileRules.ts).
+ */
+
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+/** Weekdays in the order of Date.getDay() */
+const WEEKDAYS: readonly Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const TIME_WINDOW = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+
+export interface RuleConditions {
+	/** Days of the week the rule applies on */
+	days?: Weekday[];
+	/** Local time window, "HH:MM-HH:MM"; a window ending before it starts spans midnight */
+	time?: string;
+	/** Glob the checked-out git branch must match, e.g. "review/*"; "!" negates it */
+	branch?: string;
+	/** Environment variables: the value they must have, or true / false for set / unset */
+	env?: Record<string, string | boolean>;
+	/** Remote the window must be connected to (e.g. "ssh-remote", "wsl"), or "local" for none */
+	remoteName?: string;
+}
+
+/** Values conditions are checked against */
+export interface ConditionContext {
+	/** Current time, for days and time windows */
+	now?: Date;
+	/** Checked-out git branch of the workspace folder; undefined when detached or not a repo */
+	branch?: string;
+	/** Environment variables of the editor */
+	env?: Record<string, string | undefined>;
+	/** Remote the window is connected to, undefined for a local window */
+	remoteName?: string;
+}
+
+/**
+ * Checks the conditions of a rule
+ * Returns undefined when every condition holds, otherwise why the first one doesn't
+ */
+export function checkConditions(
+	conditions: RuleConditions,
+	context: ConditionContext,
+): string | undefined {
+	// Settings aren't type checked: malformed conditions never hold (ruleValidation reports them)
+	const problem = findInvalidConditions(conditions)[0];
+	if (problem) {
+		return `Invalid condition: ${problem}`;
+	}
+
+	const now = context.now ?? new Date();
+
+	if (conditions.days) {
+		const today = WEEKDAYS[now.getDay()];
+		if (!conditions.days.some((day) => day.toLowerCase() === today)) {
+			return `Only applies on ${conditions.days.join(", ")} (today is ${today})`;
+		}
+	}
+
+	const window = conditions.time !== undefined ? parseTimeWindow(conditions.time) : undefined;
+	if (window) {
+		const minutes = now.getHours() * 60 + now.getMinutes();
+		const inside =
+			window.start <= window.end
+				? minutes >= window.start && minutes < window.end
+				: minutes >= window.start || minutes < window.end;
+		if (!inside) {
+			return `Only applies between ${conditions.time} (it is ${formatTime(minutes)})`;
+		}
+	}
+
+	if (conditions.branch !== undefined) {
+		if (context.branch === undefined) {
+			return `Only applies on branch "${conditions.branch}" (no branch is checked out)`;
+		}
+		const pattern = compilePattern(conditions.branch);
+		if (pattern.regex.test(context.branch) === pattern.negated) {
+			return `Only applies on branch "${conditions.branch}" (on "${context.branch}")`;
+		}
+	}
+
+	for (const [name, expected] of Object.entries(conditions.env ?? {})) {
+		const value = context.env?.[name];
+		const isSet = value !== undefined && value !== "";
+		if (expected === true && !isSet) {
+			return `Only applies when ${name} is set`;
+		}
+		if (expected === false && isSet) {
+			return `Only applies when ${name} is not set`;
+		}
+		if (typeof expected === "string" && value !== expected) {
+			return `Only applies when ${name} is "${expected}"`;
+		}
+	}
+
+	if (conditions.remoteName !== undefined) {
+		const remoteName = context.remoteName ?? "local";
+		if (conditions.remoteName.toLowerCase() !== remoteName.toLowerCase()) {
+			return `Only applies in "${conditions.remoteName}" windows (this one is "${remoteName}")`;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Returns true when conditions depend on the clock, so they must be re-checked over time
+ */
+export function hasTimeConditions(conditions: RuleConditions): boolean {
+	return isRecord(conditions) && (conditions.days !== undefined || conditions.time !== undefined);
+}
+
+/**
+ * Finds conditions that are written in a way that can never hold, including values
+ * of the wrong type (settings aren't type checked)
+ * Returns one message per problem
+ */
+export function findInvalidConditions(conditions: unknown): string[] {
+	if (!isRecord(conditions)) {
+		return ['`when` must be an object of conditions, e.g. { "branch": "main" }.'];
+	}
+
+	const problems: string[] = [];
+	const { days, time, branch, env, remoteName } = conditions;
+
+	if (days !== undefined && !Array.isArray(days)) {
+		problems.push('"days" must be a list of days, e.g. ["mon", "fri"].');
+	}
+	for (const day of Array.isArray(days) ? days : []) {
+		if (typeof day !== "string" || !WEEKDAYS.includes(day.toLowerCase() as Weekday)) {
+			problems.push(`${JSON.stringify(day)} is not a day; use ${WEEKDAYS.join(", ")}.`);
+		}
+	}
+
+	if (time !== undefined && (typeof time !== "string" || !parseTimeWindow(time))) {
+		problems.push(`${JSON.stringify(time)} is not a time window; use HH:MM-HH:MM, e.g. 09:00-17:30.`);
+	}
+
+	if (branch !== undefined && typeof branch !== "string") {
+		problems.push('"branch" must be a branch name or glob, e.g. "review/*".');
+	}
+
+	if (env !== undefined && !isRecord(env)) {
+		problems.push('"env" must map variable names to a value, or true / false for set / unset.');
+	}
+	for (const [name, value] of Object.entries(isRecord(env) ? env : {})) {
+		if (typeof value !== "string" && typeof value !== "boolean") {
+			problems.push(`"env.${name}" must be a value, or true / false for set / unset.`);
+		}
+	}
+
+	if (remoteName !== undefined && typeof remoteName !== "string") {
+		problems.push('"remoteName" must be a remote name, e.g. "wsl", or "local".');
+	}
+
+	return problems;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses "HH:MM-HH:MM" into minutes since midnight
+ */
+function parseTimeWindow(value: string): { start: number; end: number } | undefined {
+	const match = TIME_WINDOW.exec(value.trim());
+	if (!match) {
+		return undefined;
+	}
+
+	const [startHours, startMinutes, endHours, endMinutes] = match.slice(1).map(Number);
+	const start = toMinutes(startHours, startMinutes);
+	const end = toMinutes(endHours, endMinutes);
+
+	return start !== undefined && end !== undefined ? { start, end } : undefined;
+}
+
+/**
+ * Converts a time of day to minutes since midnight; 24:00 is the end of the day
+ * Returns undefined for times that don't exist, e.g. 24:30 or 12:60
+ */
+function toMinutes(hours: number, minutes: number): number | undefined {
+	if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+		return undefined;
+	}
+	return hours * 60 + minutes;
+}
+
+function formatTime(minutes: number): string {
+	const pad = (value: number) => String(value).padStart(2, "0");
+	return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
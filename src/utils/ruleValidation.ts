@@ -0,0 +1,337 @@
+import * as path from "path";
+import { compilePattern, isGlobPattern, matchPattern, normalizeRelativePath } from "./pathMatcher";
+import { describeRule, type ProfileRule } from "./profileResolver";
+import { findInvalidConditions } from "./ruleConditions";
+
+/**
+ * Finds rules that no longer do what they were written for: directory keys whose
+ * folder was renamed, profile names that no longer exist, keys written as absolute
+ * paths, and rules duplicating or overlapping each other.
+ *
+ * Like profileResolver.ts this module doesn't use the VS Code API; see
+ * views/ruleDiagnostics.ts for the diagnostics and quick fixes built on it, and for
+ * the RuleFileSystem reading the workspace folder.
+ */
+
+export type RuleFileType = "file" | "directory";
+
+/**
+ * Read access to the file system holding a workspace folder, which may be remote
+ */
+export interface RuleFileSystem {
+	/** Gets the type of a path relative to the workspace folder, undefined if it doesn't exist */
+	stat(relativePath: string): Promise<RuleFileType | undefined>;
+	/** Gets the type of an absolute path, undefined if it doesn't exist */
+	statAbsolute(absolutePath: string): Promise<RuleFileType | undefined>;
+	/** Lists the entry names of a folder relative to the workspace folder */
+	readDirectory(relativePath: string): Promise<string[]>;
+}
+
+export type RuleProblemKind =
+	/** A plain directory key points at nothing in the workspace folder */
+	| "missingPath"
+	/** The rule's profile doesn't exist */
+	| "unknownProfile"
+	/** A plain directory key names a folder but doesn't end with / */
+	| "missingTrailingSlash"
+	/** A directory key ends with / but names a file */
+	| "fileWithTrailingSlash"
+	/** A directory key is an absolute path instead of a relative one */
+	| "absolutePath"
+	/** Another rule of the same scope has the same key and takes precedence */
+	| "duplicate"
+	/** A glob also matches a plain directory key mapped to another profile */
+	| "overlap"
+	/** A `when` condition is written in a way that never holds */
+	| "invalidCondition";
+
+export type RuleProblemSeverity = "error" | "warning" | "information";
+
+export interface RuleProblem {
+	kind: RuleProblemKind;
+	rule: ProfileRule;
+	severity: RuleProblemSeverity;
+	message: string;
+	/** Whether the problem is about the rule's key or its profile name */
+	target: "key" | "profile";
+	/** Replacement for the key or profile name, when a likely fix is known */
+	suggestion?: string;
+}
+
+/**
+ * Validates the rules of a workspace folder
+ * Profile names are only checked when profileNames is given
+ */
+export async function validateRules(
+	workspacePath: string,
+	fileSystem: RuleFileSystem,
+	rules: ProfileRule[],
+	profileNames?: string[],
+): Promise<RuleProblem[]> {
+	const problems: RuleProblem[] = [];
+	const seen = new Map<string, ProfileRule>();
+
+	for (const rule of rules) {
+		if (profileNames && !profileNames.includes(rule.profile)) {
+			const suggestion = findClosestMatch(rule.profile, profileNames);
+			problems.push({
+				kind: "unknownProfile",
+				rule,
+				severity: "warning",
+				target: "profile",
+				suggestion,
+				message: `Profile "${rule.profile}" doesn't exist${suggestion ? `, did you mean "${suggestion}"?` : "."}`,
+			});
+		}
+
+		// Rules are collected narrowest scope first, the config file before settings.json
+		const id = [rule.source.scope, rule.kind, ruleKey(rule)].join("\n");
+		const first = seen.get(id);
+		if (first) {
+			const where =
+				first.source.file && first.source.file !== rule.source.file
+					? ` in ${path.basename(first.source.file)}`
+					: "";
+			problems.push({
+				kind: "duplicate",
+				rule,
+				severity: "warning",
+				target: "key",
+				message: `Duplicate of the ${describeRule(first)}${where}, which takes precedence; this rule is never used.`,
+			});
+		} else {
+			seen.set(id, rule);
+		}
+
+		if (rule.kind === "directory") {
+			problems.push(...(await validateDirectoryKey(workspacePath, fileSystem, rule)));
+		}
+
+		for (const message of rule.options?.when ? findInvalidConditions(rule.options.when) : []) {
+			problems.push({ kind: "invalidCondition", rule, severity: "error", target: "key", message });
+		}
+	}
+
+	problems.push(...findOverlaps(rules));
+	return problems;
+}
+
+/**
+ * Finds the candidate closest to a value: a case-insensitive match first, then the
+ * smallest edit distance within a third of the value's length
+ */
+export function findClosestMatch(value: string, candidates: string[]): string | undefined {
+	const lower = value.toLowerCase();
+	const sameCase = candidates.find((candidate) => candidate.toLowerCase() === lower);
+	if (sameCase) {
+		return sameCase;
+	}
+
+	const maxDistance = Math.max(2, Math.floor(value.length / 3));
+	let best: string | undefined;
+	let bestDistance = maxDistance + 1;
+
+	for (const candidate of candidates) {
+		const distance = editDistance(lower, candidate.toLowerCase());
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Key that identifies what a rule applies to, so `backend`, `./backend/` and
+ * `backend/` count as the same directory
+ */
+function ruleKey(rule: ProfileRule): string {
+	const pattern = rule.pattern ?? "";
+	if (rule.kind !== "directory") {
+		return pattern;
+	}
+
+	const negated = pattern.startsWith("!");
+	return `${negated ? "!" : ""}${normalizeRelativePath(negated ? pattern.slice(1) : pattern)}`;
+}
+
+async function validateDirectoryKey(
+	workspacePath: string,
+	fileSystem: RuleFileSystem,
+	rule: ProfileRule,
+): Promise<RuleProblem[]> {
+	const key = rule.pattern ?? "";
+	const prefix = key.startsWith("!") ? "!" : "";
+	const body = key.slice(prefix.length);
+
+	if (await isAbsoluteKey(workspacePath, fileSystem, body)) {
+		const relative = path.relative(workspacePath, body);
+		const inside = relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+		const suggestion = inside ? `${prefix}${relative.replace(/\\/g, "/")}/` : undefined;
+		return [
+			{
+				kind: "absolutePath",
+				rule,
+				severity: "error",
+				target: "key",
+				suggestion,
+				message: inside
+					? `Directory keys are relative to the workspace folder; use "${suggestion}" instead of an absolute path.`
+					: `Directory keys are relative to the workspace folder; "${key}" is an absolute path outside of it.`,
+			},
+		];
+	}
+
+	const relativePath = normalizeRelativePath(body);
+	if (isGlobPattern(body) || relativePath === "") {
+		return [];
+	}
+
+	const type = await fileSystem.stat(relativePath);
+
+	if (!type) {
+		const closest = await findClosestPath(fileSystem, relativePath);
+		const suggestion = closest ? `${prefix}${closest}/` : undefined;
+		return [
+			{
+				kind: "missingPath",
+				rule,
+				severity: "warning",
+				target: "key",
+				suggestion,
+				message: `"${relativePath}" doesn't exist in the workspace folder${suggestion ? `, did you mean "${suggestion}"?` : "."}`,
+			},
+		];
+	}
+
+	if (type === "directory" && !body.endsWith("/")) {
+		return [
+			{
+				kind: "missingTrailingSlash",
+				rule,
+				severity: "information",
+				target: "key",
+				suggestion: `${key}/`,
+				message: `"${key}" is a folder; end the key with / to make that clear.`,
+			},
+		];
+	}
+
+	if (type === "file" && body.endsWith("/")) {
+		return [
+			{
+				kind: "fileWithTrailingSlash",
+				rule,
+				severity: "warning",
+				target: "key",
+				suggestion: `${prefix}${relativePath}`,
+				message: `"${relativePath}" is a file, not a folder; remove the trailing /.`,
+			},
+		];
+	}
+
+	return [];
+}
+
+/**
+ * Finds globs that also cover a plain directory key mapped to another profile in the
+ * same scope; the plain key wins there, which is easy to miss when reading the glob
+ */
+function findOverlaps(rules: ProfileRule[]): RuleProblem[] {
+	const problems: RuleProblem[] = [];
+	const directoryRules = rules.filter(
+		(rule) => rule.kind === "directory" && !rule.pattern?.startsWith("!"),
+	);
+	const plainRules = directoryRules.filter((rule) => !isGlobPattern(rule.pattern ?? ""));
+
+	for (const glob of directoryRules.filter((rule) => isGlobPattern(rule.pattern ?? ""))) {
+		const pattern = compilePattern(glob.pattern ?? "");
+		for (const plain of plainRules) {
+			const plainPath = normalizeRelativePath(plain.pattern ?? "");
+			if (
+				plain.source.scope !== glob.source.scope ||
+				plain.profile === glob.profile ||
+				plainPath === ""
+			) {
+				continue;
+			}
+
+			if (matchPattern(pattern, plainPath) === plainPath.split("/").length) {
+				problems.push({
+					kind: "overlap",
+					rule: glob,
+					severity: "information",
+					target: "key",
+					message: `"${glob.pattern}" also matches "${plain.pattern}", which is mapped to "${plain.profile}"; the plain path wins there.`,
+				});
+			}
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Detects keys written as absolute paths. A leading / alone is allowed (it is read
+ * relative to the workspace folder), unless the key is clearly a full path.
+ */
+async function isAbsoluteKey(
+	workspacePath: string,
+	fileSystem: RuleFileSystem,
+	key: string,
+): Promise<boolean> {
+	if (/^[a-zA-Z]:[\\/]/.test(key) || key.startsWith("\\\\") || key.startsWith("~")) {
+		return true;
+	}
+	if (!key.startsWith("/")) {
+		return false;
+	}
+
+	const workspace = workspacePath.replace(/\\/g, "/");
+	return (
+		key.startsWith(`${workspace}/`) ||
+		(!(await fileSystem.stat(key)) && (await fileSystem.statAbsolute(key)) !== undefined)
+	);
+}
+
+/**
+ * Corrects each segment of a missing relative path to the closest existing entry
+ * Returns undefined if a segment has no close match
+ */
+async function findClosestPath(
+	fileSystem: RuleFileSystem,
+	relativePath: string,
+): Promise<string | undefined> {
+	let current = "";
+
+	for (const segment of relativePath.split("/")) {
+		const entries = await fileSystem.readDirectory(current);
+
+		const match = entries.includes(segment) ? segment : findClosestMatch(segment, entries);
+		if (!match) {
+			return undefined;
+		}
+		current = current ? `${current}/${match}` : match;
+	}
+
+	return current;
+}
+
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+
+	return previous[b.length];
+}
@@ -0,0 +1,295 @@
+import * as vscode from "vscode";
+import { getConfigFileSettings } from "./configFile";
+import { updateSettingsFile } from "./jsoncSettings";
+import { setPersonalDirectoryProfile, setPersonalWorkspaceProfile } from "./personalMappings";
+import {
+	describeRule,
+	type ProfileRule,
+	type ProfileRuleKind,
+	type RuleSettings,
+	type RuleValue,
+} from "./profileResolver";
+import {
+	getSettingsUri,
+	normalizeDirectoryKey,
+	updateDirectoryProfile,
+	updateWorkspaceProfile,
+} from "./settingsManager";
+import { fromFileName } from "./workspaceFs";
+
+/**
+ * Where profile mappings are written:
+ * - workspaceFolder: the folder's .vscode/settings.json (shared with the team)
+ * - workspaceFile: the .code-workspace file of a multi-root workspace
+ * - personal: this machine only, stored by the extension and never committed
+ */
+export type SettingsTarget = "workspaceFolder" | "workspaceFile" | "personal";
+
+type WriteTargetSetting = SettingsTarget | "ask";
+
+interface SettingsTargetItem extends vscode.QuickPickItem {
+	target: SettingsTarget;
+}
+
+/**
+ * Gets the target configured by profileSwitcher.writeTarget for a kind of rule, asking
+ * when it is "ask"
+ * Returns undefined if the user cancels
+ */
+export async function pickSettingsTarget(
+	folder: vscode.WorkspaceFolder,
+	kind: ProfileRuleKind = "workspace",
+): Promise<SettingsTarget | undefined> {
+	const configured = vscode.workspace
+		.getConfiguration("profileSwitcher", folder.uri)
+		.get<WriteTargetSetting>("writeTarget", "workspaceFolder");
+	const workspaceFile =
+		kind === "directory" && !canWriteDirectoryToWorkspaceFile()
+			? undefined
+			: vscode.workspace.workspaceFile;
+
+	if (configured !== "ask") {
+		// Without a usable .code-workspace file, workspace settings are the folder's settings
+		return configured === "workspaceFile" && !workspaceFile ? "workspaceFolder" : configured;
+	}
+
+	const items: SettingsTargetItem[] = [
+		{
+			label: "$(folder) Workspace folder",
+			description: `${folder.name}/.vscode/settings.json`,
+			detail: "Shared with everyone who opens this folder",
+			target: "workspaceFolder",
+		},
+	];
+
+	if (workspaceFile) {
+		items.push({
+			label: "$(multiple-windows) Workspace file",
+			description: workspaceFile.path.split("/").pop(),
+			detail: "Shared with everyone who opens this multi-root workspace",
+			target: "workspaceFile",
+		});
+	}
+
+	items.push({
+		label: "$(person) Personal",
+		description: "This machine only",
+		detail: "Overrides the shared settings and is never committed",
+		target: "personal",
+	});
+
+	const selected = await vscode.window.showQuickPick(items, {
+		placeHolder: "Where should this profile mapping be saved?",
+	});
+
+	return selected?.target;
+}
+
+/**
+ * Human readable name of a settings target, for messages
+ */
+export function describeSettingsTarget(target: SettingsTarget): string {
+	switch (target) {
+		case "workspaceFolder":
+			return "workspace folder settings";
+		case "workspaceFile":
+			return "workspace file";
+		case "personal":
+			return "personal mappings";
+	}
+}
+
+/**
+ * Writes the workspace profile of a folder to the given target
+ */
+export async function writeWorkspaceProfile(
+	folder: vscode.WorkspaceFolder,
+	profileName: string,
+	target: SettingsTarget,
+): Promise<void> {
+	switch (target) {
+		case "workspaceFolder":
+			await updateWorkspaceProfile(folder.uri, profileName);
+			break;
+		case "workspaceFile":
+			await vscode.workspace
+				.getConfiguration("profileSwitcher", folder.uri)
+				.update("workspaceProfile", profileName, vscode.ConfigurationTarget.Workspace);
+			break;
+		case "personal":
+			await setPersonalWorkspaceProfile(folder.uri, profileName);
+			break;
+	}
+}
+
+/**
+ * Whether directory mappings can be written to the .code-workspace file: its keys are
+ * relative to whichever folder is resolved, so with several folders open a key meant
+ * for one folder would also match the same path in the others
+ */
+function canWriteDirectoryToWorkspaceFile(): boolean {
+	return (vscode.workspace.workspaceFolders?.length ?? 0) <= 1;
+}
+
+/**
+ * Writes a directory profile mapping of a folder to the given target
+ * Throws if the target is the workspace file and several folders are open
+ */
+export async function writeDirectoryProfile(
+	folder: vscode.WorkspaceFolder,
+	relativePath: string,
+	profileName: string,
+	target: SettingsTarget,
+): Promise<void> {
+	switch (target) {
+		case "workspaceFolder":
+			await updateDirectoryProfile(folder.uri, relativePath, profileName);
+			break;
+		case "workspaceFile": {
+			if (!canWriteDirectoryToWorkspaceFile()) {
+				throw new Error(
+					`Folder mappings can't be saved in the workspace file of a workspace with several folders, as they would apply to every folder. Save the mapping for "${folder.name}" in its folder settings instead.`,
+				);
+			}
+			// The configuration API replaces the whole object, so merge with the existing rules
+			const config = vscode.workspace.getConfiguration("profileSwitcher", folder.uri);
+			const directoryProfiles =
+				config.inspect<Record<string, string>>("directoryProfiles")?.workspaceValue ?? {};
+			await config.update(
+				"directoryProfiles",
+				{ ...directoryProfiles, [normalizeDirectoryKey(relativePath)]: profileName },
+				vscode.ConfigurationTarget.Workspace,
+			);
+			break;
+		}
+		case "personal":
+			await setPersonalDirectoryProfile(folder.uri, normalizeDirectoryKey(relativePath), profileName);
+			break;
+	}
+}
+
+/** Setting holding each kind of rule; package configs live in their own files */
+const RULE_SETTING_KEYS: Partial<Record<ProfileRuleKind, keyof RuleSettings>> = {
+	workspace: "workspaceProfile",
+	directory: "directoryProfiles",
+	filePattern: "filePatternProfiles",
+	language: "languageProfiles",
+	remote: "remoteProfiles",
+};
+
+/**
+ * Where a rule is written in its settings file: the file and the JSON path of its value
+ * Returns undefined for rules that don't live in a file (personal mappings, user
+ * settings, untitled workspaces) or can't be edited here (package configs)
+ */
+export function getRuleLocation(
+	folder: vscode.WorkspaceFolder,
+	rule: ProfileRule,
+): { file: vscode.Uri; jsonPath: string[] } | undefined {
+	const key = RULE_SETTING_KEYS[rule.kind];
+	if (!key) {
+		return undefined;
+	}
+	const valuePath = rule.kind === "workspace" ? [] : [rule.pattern ?? ""];
+
+	switch (rule.source.scope) {
+		case "workspaceFolder": {
+			const file = rule.source.file ? fromFileName(rule.source.file) : getSettingsUri(folder.uri);
+			// The config file uses bare keys, settings.json the full setting name
+			return rule.source.file !== undefined &&
+				rule.source.file === getConfigFileSettings(folder.uri)?.file
+				? { file, jsonPath: [key, ...valuePath] }
+				: { file, jsonPath: [`profileSwitcher.${key}`, ...valuePath] };
+		}
+		case "workspace":
+			return rule.source.file
+				? {
+						file: fromFileName(rule.source.file),
+						jsonPath: ["settings", `profileSwitcher.${key}`, ...valuePath],
+					}
+				: undefined;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Changes (or removes, with undefined) a rule in the settings scope it is defined in
+ * Throws if the rule can't be edited here, or SettingsFileError if its file can't be parsed
+ */
+export async function updateRuleAtSource(
+	folder: vscode.WorkspaceFolder,
+	rule: ProfileRule,
+	value: RuleValue | undefined,
+): Promise<void> {
+	const key = RULE_SETTING_KEYS[rule.kind];
+	if (!key) {
+		throw new Error(`The ${describeRule(rule)} can only be changed in its own file.`);
+	}
+
+	switch (rule.source.scope) {
+		case "personal": {
+			// Personal mappings only hold profile names
+			const profile = typeof value === "object" ? value.profile : value;
+			if (rule.kind === "workspace") {
+				await setPersonalWorkspaceProfile(folder.uri, profile);
+			} else {
+				await setPersonalDirectoryProfile(folder.uri, rule.pattern ?? "", profile);
+			}
+			break;
+		}
+		case "workspaceFolder": {
+			const location = getRuleLocation(folder, rule);
+			if (location) {
+				await updateSettingsFile(location.file, location.jsonPath, value);
+			}
+			break;
+		}
+		case "workspace":
+			await updateConfigurationRule(
+				folder,
+				key,
+				rule.pattern,
+				value,
+				vscode.ConfigurationTarget.Workspace,
+			);
+			break;
+		case "user":
+			await updateConfigurationRule(
+				folder,
+				key,
+				rule.pattern,
+				value,
+				vscode.ConfigurationTarget.Global,
+			);
+			break;
+	}
+}
+
+async function updateConfigurationRule(
+	folder: vscode.WorkspaceFolder,
+	key: keyof RuleSettings,
+	pattern: string | undefined,
+	value: RuleValue | undefined,
+	target: vscode.ConfigurationTarget,
+): Promise<void> {
+	const config = vscode.workspace.getConfiguration("profileSwitcher", folder.uri);
+	if (key === "workspaceProfile") {
+		await config.update(key, value, target);
+		return;
+	}
+
+	// The configuration API replaces the whole object, so edit a copy of the existing rules
+	const inspected = config.inspect<Record<string, RuleValue>>(key);
+	const rules = {
+		...(target === vscode.ConfigurationTarget.Global
+			? inspected?.globalValue
+			: inspected?.workspaceValue),
+	};
+	if (value === undefined) {
+		delete rules[pattern ?? ""];
+	} else {
+		rules[pattern ?? ""] = value;
+	}
+	await config.update(key, Object.keys(rules).length > 0 ? rules : undefined, target);
+}
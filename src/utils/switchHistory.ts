@@ -0,0 +1,122 @@
+import type * as vscode from "vscode";
+import type { ProfileRuleKind } from "./profileResolver";
+
+/**
+ * History of the profile switches this extension performed, newest first, kept in the
+ * extension's global state so it outlives the window (a live switch restarts the
+ * extension host) and covers every workspace.
+ */
+
+export type SwitchTrigger =
+	/** Applying the workspace's profile when it opens */
+	| "startup"
+	/** The active editor moved to a file mapped to another profile */
+	| "editorChange"
+	/** Settings, config files or personal mappings changed */
+	| "settingsChange"
+	/** A command or the status bar */
+	| "command"
+	/** Profile Switcher: Switch Back to Previous Profile */
+	| "switchBack"
+	/** The active editor left the folder mapped to a profile (profileSwitcher.restorePreviousProfile) */
+	| "restore";
+
+export interface SwitchHistoryEntry {
+	/** When the switch happened, in milliseconds since the epoch */
+	timestamp: number;
+	profile: string;
+	/** Profile the window ran in before the switch, when known */
+	previous?: string;
+	trigger: SwitchTrigger;
+	/** Description of the rule that chose the profile (see describeRule) */
+	rule?: string;
+	ruleKind?: ProfileRuleKind;
+	/** URI of the workspace: the .code-workspace file or the first folder */
+	workspace?: string;
+	/** Name of the workspace, for display */
+	workspaceName?: string;
+}
+
+const HISTORY_STATE_KEY = "profileSwitcher.switchHistory";
+
+/** Entries kept; older ones are dropped */
+const MAX_HISTORY_ENTRIES = 50;
+
+/** Rule kinds that only cover some files, i.e. the editor can leave them within the workspace */
+const FILE_RULE_KINDS: ReadonlySet<ProfileRuleKind> = new Set([
+	"directory",
+	"package",
+	"filePattern",
+	"language",
+]);
+
+let globalState: vscode.Memento | undefined;
+
+/**
+ * Connects the history to the extension's global state; called on activation
+ */
+export function initializeSwitchHistory(state: vscode.Memento): void {
+	globalState = state;
+}
+
+/**
+ * Gets the recorded switches of every workspace, newest first
+ */
+export function getSwitchHistory(): SwitchHistoryEntry[] {
+	return globalState?.get<SwitchHistoryEntry[]>(HISTORY_STATE_KEY, []) ?? [];
+}
+
+/**
+ * Gets the recorded switches made in a workspace (or without one), newest first
+ */
+export function getWorkspaceSwitchHistory(
+	workspaceUri: vscode.Uri | undefined,
+): SwitchHistoryEntry[] {
+	const workspace = workspaceUri?.toString();
+	return getSwitchHistory().filter((entry) => entry.workspace === workspace);
+}
+
+/**
+ * Records a switch; before activation nothing is recorded
+ * A failed write is logged, it doesn't fail the switch
+ */
+export async function recordSwitch(entry: Omit<SwitchHistoryEntry, "timestamp">): Promise<void> {
+	try {
+		await globalState?.update(
+			HISTORY_STATE_KEY,
+			[{ ...entry, timestamp: Date.now() }, ...getSwitchHistory()].slice(0, MAX_HISTORY_ENTRIES),
+		);
+	} catch (error) {
+		console.error("Error recording the profile switch:", error);
+	}
+}
+
+/**
+ * Forgets every recorded switch
+ */
+export async function clearSwitchHistory(): Promise<void> {
+	await globalState?.update(HISTORY_STATE_KEY, undefined);
+}
+
+/**
+ * Gets the profile the workspace ran in before the editor entered files mapped by
+ * directory, package, file pattern or language rules, i.e. the profile to restore
+ * when it leaves them
+ * Returns undefined when the last switch wasn't made for such a rule
+ */
+export function getProfileBeforeFileRules(
+	workspaceUri: vscode.Uri | undefined,
+): string | undefined {
+	let profile: string | undefined;
+
+	// Moving between two mapped folders switches twice; the first switch left the original profile
+	for (const entry of getWorkspaceSwitchHistory(workspaceUri)) {
+		const automatic = entry.trigger === "editorChange" || entry.trigger === "settingsChange";
+		if (!automatic || !entry.ruleKind || !FILE_RULE_KINDS.has(entry.ruleKind)) {
+			break;
+		}
+		profile = entry.previous;
+	}
+
+	return profile;
+}
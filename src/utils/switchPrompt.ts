@@ -0,0 +1,182 @@
+import * as vscode from "vscode";
+import { describeRule, type ProfileRuleKind } from "./profileResolver";
+import type { WorkspaceProfileDecision } from "./profileRules";
+
+export type SwitchMode = "auto" | "prompt" | "off";
+
+export type RememberedChoice = "always" | "never";
+
+export interface RememberedSwitchChoice {
+	/** Workspace folder URI the rule belongs to */
+	folder: string;
+	/** Name of the workspace folder, for display */
+	folderName: string;
+	/** Folder of the file the answer was given for, relative to the workspace folder */
+	directory: string;
+	/** Description of the rule, for display (see describeRule) */
+	rule: string;
+	/** Undefined for switching back to the previous profile (profileSwitcher.restorePreviousProfile) */
+	ruleKind?: ProfileRuleKind;
+	/** The rule's key (directory, file pattern, language...), undefined for the workspace profile */
+	pattern?: string;
+	profile: string;
+	choice: RememberedChoice;
+}
+
+const CHOICES_STATE_KEY = "profileSwitcher.rememberedSwitchChoices";
+
+const SWITCH = "Switch";
+const NOT_NOW = "Not now";
+const ALWAYS = "Always for this folder";
+const NEVER = "Never for this folder";
+
+/**
+ * Gets the configured switch mode for automatic switches on editor changes
+ */
+export function getSwitchMode(): SwitchMode {
+	return vscode.workspace.getConfiguration("profileSwitcher").get<SwitchMode>("switchMode", "auto");
+}
+
+/**
+ * Asks before automatic switches and remembers "always" / "never" answers per rule
+ * and folder in workspace state. "Not now" is remembered until the window reloads.
+ */
+export class SwitchPrompt {
+	private readonly dismissed = new Set<string>();
+	private readonly pending = new Set<string>();
+
+	constructor(private readonly workspaceState: vscode.Memento) {}
+
+	/**
+	 * Returns true when the switch for this decision should go ahead.
+	 * Shows a notification unless an answer for the rule is remembered.
+	 */
+	async confirm(decision: WorkspaceProfileDecision): Promise<boolean> {
+		if (!decision.profile || !decision.rule) {
+			return false;
+		}
+
+		return this.ask(
+			{
+				...getFolder(decision),
+				rule: describeRule(decision.rule),
+				ruleKind: decision.rule.kind,
+				pattern: decision.rule.pattern,
+				profile: decision.profile,
+			},
+			`Switch to profile "${decision.profile}"? It is configured by the ${describeRule(decision.rule)} in ${decision.workspaceFolder.name}.`,
+		);
+	}
+
+	/**
+	 * Returns true when switching back to the profile used before entering mapped files
+	 * should go ahead, for a file no rule maps (see profileSwitcher.restorePreviousProfile)
+	 * Shows a notification unless an answer for the folder is remembered.
+	 */
+	async confirmRestore(decision: WorkspaceProfileDecision, profile: string): Promise<boolean> {
+		return this.ask(
+			{ ...getFolder(decision), rule: "previous profile", profile },
+			`Switch back to profile "${profile}"? No rule maps this file in ${decision.workspaceFolder.name}, and "${profile}" was used before.`,
+		);
+	}
+
+	/**
+	 * Gets every remembered answer
+	 */
+	getChoices(): RememberedSwitchChoice[] {
+		return this.workspaceState.get<RememberedSwitchChoice[]>(CHOICES_STATE_KEY, []);
+	}
+
+	/**
+	 * Forgets the given remembered answers, so the next switch asks again
+	 */
+	async forget(choices: RememberedSwitchChoice[]): Promise<void> {
+		const keys = new Set(choices.map(choiceKey));
+		await this.workspaceState.update(
+			CHOICES_STATE_KEY,
+			this.getChoices().filter((entry) => !keys.has(choiceKey(entry))),
+		);
+		for (const key of keys) {
+			this.dismissed.delete(key);
+		}
+	}
+
+	private async ask(
+		choice: Omit<RememberedSwitchChoice, "choice">,
+		message: string,
+	): Promise<boolean> {
+		const key = choiceKey(choice);
+
+		const remembered = this.getChoices().find((entry) => choiceKey(entry) === key);
+		if (remembered) {
+			return remembered.choice === "always";
+		}
+
+		// Don't ask again this session, and don't stack notifications for the same rule
+		if (this.dismissed.has(key) || this.pending.has(key)) {
+			return false;
+		}
+
+		this.pending.add(key);
+		try {
+			const selection = await vscode.window.showInformationMessage(
+				message,
+				SWITCH,
+				NOT_NOW,
+				ALWAYS,
+				NEVER,
+			);
+
+			switch (selection) {
+				case SWITCH:
+					return true;
+				case ALWAYS:
+					await this.remember({ ...choice, choice: "always" });
+					return true;
+				case NEVER:
+					await this.remember({ ...choice, choice: "never" });
+					return false;
+				default:
+					this.dismissed.add(key);
+					return false;
+			}
+		} finally {
+			this.pending.delete(key);
+		}
+	}
+
+	private async remember(choice: RememberedSwitchChoice): Promise<void> {
+		const key = choiceKey(choice);
+		await this.workspaceState.update(CHOICES_STATE_KEY, [
+			...this.getChoices().filter((entry) => choiceKey(entry) !== key),
+			choice,
+		]);
+	}
+}
+
+/**
+ * Gets the folder of the file a decision was made for, the scope answers are remembered in
+ */
+function getFolder(
+	decision: WorkspaceProfileDecision,
+): Pick<RememberedSwitchChoice, "folder" | "folderName" | "directory"> {
+	return {
+		folder: decision.workspaceFolder.uri.toString(),
+		folderName: decision.workspaceFolder.name,
+		directory: decision.relativePath.split("/").slice(0, -1).join("/"),
+	};
+}
+
+/**
+ * Identity of a remembered answer: another folder, or the same rule mapped to another
+ * profile, asks again
+ */
+function choiceKey(choice: Omit<RememberedSwitchChoice, "choice">): string {
+	return JSON.stringify([
+		choice.folder,
+		choice.directory,
+		choice.ruleKind ?? null,
+		choice.pattern ?? null,
+		choice.profile,
+	]);
+}
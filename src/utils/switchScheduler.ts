@@ -0,0 +1,128 @@
+import type * as vscode from "vscode";
+import { offerProfileCreation, profileExists } from "./profileCreation";
+import { type SwitchOrigin, type SwitchOutcome, switchToProfile } from "./profileManager";
+
+/** How long editor changes are collected before the profile is re-resolved */
+export const EDITOR_CHANGE_DEBOUNCE_MS = 250;
+
+export interface ScheduledSwitchResult {
+	/**
+	 * A switch outcome, "superseded" when a newer request arrived before this one ran, or
+	 * "profileMissing" when the profile doesn't exist yet and creating it was offered
+	 */
+	outcome: SwitchOutcome | "superseded" | "profileMissing";
+	profile: string;
+	reason: string;
+}
+
+/**
+ * Serializes profile switches, automatic ones and the ones commands make.
+ *
+ * Editor changes are debounced (schedule); switch requests (switchTo) run one at a
+ * time, a request is dropped when a newer one arrives before it starts, and switching
+ * to the profile that is already running is skipped. Commands call switchTo directly,
+ * so they never cancel a pending evaluation. Creating a missing profile is offered
+ * outside the queue, so waiting for the user doesn't hold up later switches.
+ */
+export class SwitchScheduler implements vscode.Disposable {
+	private debounceTimer: NodeJS.Timeout | undefined;
+	private generation = 0;
+	private queue: Promise<unknown> = Promise.resolve();
+	private disposed = false;
+
+	/**
+	 * @param getRunningProfile Reads the profile the window currently runs in
+	 */
+	constructor(private readonly getRunningProfile: () => Promise<string | undefined>) {}
+
+	/**
+	 * Runs a task once editor changes have settled; a new call replaces a pending one
+	 */
+	schedule(task: () => Promise<void>, delay = EDITOR_CHANGE_DEBOUNCE_MS): void {
+		if (this.debounceTimer) {
+			clearTimeout(this.debounceTimer);
+		}
+		this.debounceTimer = setTimeout(() => {
+			this.debounceTimer = undefined;
+			task().catch((error) => console.error("Scheduled profile switch failed:", error));
+		}, delay);
+	}
+
+	/**
+	 * Returns true when the given profile is the one the window runs in
+	 */
+	async isActive(profileName: string): Promise<boolean> {
+		return (await this.getRunningProfile()) === profileName;
+	}
+
+	/**
+	 * Requests a switch to the given profile. Requests are queued behind the
+	 * switch in progress; when a newer request arrives first, this one is skipped.
+	 * @param origin Why the switch is made, for the switch history
+	 */
+	switchTo(profileName: string, origin: SwitchOrigin): Promise<ScheduledSwitchResult> {
+		const generation = ++this.generation;
+
+		const run = async (): Promise<ScheduledSwitchResult> => {
+			const superseded: ScheduledSwitchResult = {
+				outcome: "superseded",
+				profile: profileName,
+				reason: "A newer switch was requested",
+			};
+
+			if (generation !== this.generation) {
+				return superseded;
+			}
+
+			if (await this.isActive(profileName)) {
+				return {
+					outcome: "alreadyActive",
+					profile: profileName,
+					reason: `"${profileName}" is already running`,
+				};
+			}
+
+			if (generation !== this.generation) {
+				return superseded;
+			}
+
+			if (!(await profileExists(profileName))) {
+				this.offerCreation(profileName, origin, generation);
+				return {
+					outcome: "profileMissing",
+					profile: profileName,
+					reason: `profile "${profileName}" doesn't exist on this machine yet`,
+				};
+			}
+
+			return switchToProfile(profileName, origin);
+		};
+
+		const result = this.queue.then(run, run);
+		this.queue = result;
+		return result;
+	}
+
+	dispose(): void {
+		if (this.debounceTimer) {
+			clearTimeout(this.debounceTimer);
+		}
+		// Pending requests become no-ops
+		this.generation++;
+		this.disposed = true;
+	}
+
+	/**
+	 * Offers to create a missing profile and requests the switch again once it exists,
+	 * unless another switch was requested in the meantime
+	 */
+	private offerCreation(profileName: string, origin: SwitchOrigin, generation: number): void {
+		offerProfileCreation(profileName)
+			.then((created) => {
+				if (created && !this.disposed && generation === this.generation) {
+					return this.switchTo(profileName, origin);
+				}
+			})
+			.catch((error) => console.error(`Creating profile ${profileName} failed:`, error));
+	}
+}
@@ -0,0 +1,230 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+
+/**
+ * Detects the user data directory of the editor this extension runs in: the folder
+ * holding User/globalStorage/storage.json and User/profiles/.
+ *
+ * Sources, first match wins:
+ * 1. the `profileSwitcher.userDataPath` setting
+ * 2. the extension's own global storage folder, which lives inside the user data
+ *    directory (covers `--user-data-dir`, portable, Flatpak and Snap installs)
+ * 3. `VSCODE_PORTABLE`
+ * 4. the default location for the running editor (`vscode.env.appName`)
+ * 5. the first existing default location of a known editor
+ */
+
+export type UserDataPathSource =
+	| "setting"
+	| "globalStorage"
+	| "portable"
+	| "appName"
+	| "fallback"
+	| "none";
+
+export interface UserDataPathCandidate {
+	path: string;
+	source: UserDataPathSource;
+	/** True when the folder contains a User folder */
+	exists: boolean;
+}
+
+export interface UserDataPathDetection {
+	/** The chosen user data directory, undefined when none was found */
+	path: string | undefined;
+	source: UserDataPathSource;
+	/** Why this path was chosen */
+	reason: string;
+	/** Every location that was considered, in order */
+	candidates: UserDataPathCandidate[];
+	/** Problems worth showing even though a path was found */
+	warnings: string[];
+}
+
+/** User data folder names of known editors, by `vscode.env.appName` */
+const APP_DATA_FOLDERS: Record<string, string> = {
+	"Visual Studio Code": "Code",
+	"Visual Studio Code - Insiders": "Code - Insiders",
+	"Visual Studio Code - Exploration": "Code - Exploration",
+	VSCodium: "VSCodium",
+	"VSCodium - Insiders": "VSCodium - Insiders",
+	Cursor: "Cursor",
+	Windsurf: "Windsurf",
+};
+
+/** Order of the last-resort lookup when the running editor is unknown */
+const FALLBACK_FOLDERS = ["Cursor", "Code", "Code - Insiders", "VSCodium"];
+
+let globalStorageUri: vscode.Uri | undefined;
+let extensionKind: vscode.ExtensionKind | undefined;
+
+/**
+ * Connects detection to the running extension; called on activation
+ */
+export function initializeUserDataPath(context: vscode.ExtensionContext): void {
+	globalStorageUri = context.globalStorageUri;
+	extensionKind = context.extension.extensionKind;
+}
+
+/**
+ * Detects the user data directory, see the module comment for the order
+ */
+export function detectUserDataPath(): UserDataPathDetection {
+	const candidates: UserDataPathCandidate[] = [];
+	const warnings: string[] = [];
+
+	const consider = (
+		candidatePath: string | undefined,
+		source: UserDataPathSource,
+	): UserDataPathCandidate | undefined => {
+		if (!candidatePath) {
+			return undefined;
+		}
+		const candidate = { path: candidatePath, source, exists: hasUserFolder(candidatePath) };
+		candidates.push(candidate);
+		return candidate.exists ? candidate : undefined;
+	};
+	const found = (candidate: UserDataPathCandidate, reason: string): UserDataPathDetection => ({
+		path: candidate.path,
+		source: candidate.source,
+		reason,
+		candidates,
+		warnings,
+	});
+
+	const configured = vscode.workspace
+		.getConfiguration("profileSwitcher")
+		.get<string>("userDataPath", "")
+		.trim();
+	if (configured) {
+		const fromSetting = consider(toUserDataPath(expandHome(configured)), "setting");
+		if (fromSetting) {
+			return found(fromSetting, "Set by profileSwitcher.userDataPath");
+		}
+		warnings.push(
+			`profileSwitcher.userDataPath is set to "${configured}", but it has no User folder. The setting is ignored.`,
+		);
+	}
+
+	// A workspace extension on a remote host stores its data on the server, not in the editor's folder
+	const runsRemotely =
+		vscode.env.remoteName !== undefined && extensionKind === vscode.ExtensionKind.Workspace;
+	if (runsRemotely) {
+		warnings.push(
+			`The extension runs on the remote host (${vscode.env.remoteName}), where the editor's profiles are not stored. Set profileSwitcher.userDataPath if detection picks the wrong folder.`,
+		);
+	} else if (globalStorageUri?.scheme === "file") {
+		const fromStorage = consider(fromGlobalStoragePath(globalStorageUri.fsPath), "globalStorage");
+		if (fromStorage) {
+			return found(
+				fromStorage,
+				`Parent of the extension's global storage (${globalStorageUri.fsPath})`,
+			);
+		}
+	}
+
+	const portable = process.env.VSCODE_PORTABLE;
+	if (portable) {
+		const fromPortable = consider(path.join(portable, "user-data"), "portable");
+		if (fromPortable) {
+			return found(fromPortable, `Portable install (VSCODE_PORTABLE=${portable})`);
+		}
+	}
+
+	const appFolder = APP_DATA_FOLDERS[vscode.env.appName];
+	if (appFolder) {
+		for (const base of getAppDataBases()) {
+			const fromAppName = consider(path.join(base, appFolder), "appName");
+			if (fromAppName) {
+				return found(fromAppName, `Default location for ${vscode.env.appName}`);
+			}
+		}
+	} else {
+		warnings.push(
+			`"${vscode.env.appName}" is not a known editor, so its default location is unknown.`,
+		);
+	}
+
+	for (const folder of FALLBACK_FOLDERS) {
+		for (const base of getAppDataBases()) {
+			const fromFallback = consider(path.join(base, folder), "fallback");
+			if (fromFallback) {
+				warnings.push(
+					"The folder was guessed from the known editors; profiles may belong to another editor.",
+				);
+				return found(fromFallback, `First existing default location (${folder})`);
+			}
+		}
+	}
+
+	return {
+		path: undefined,
+		source: "none",
+		reason: "No user data directory was found",
+		candidates,
+		warnings,
+	};
+}
+
+/**
+ * Gets the user data directory from a global storage path such as
+ * <userData>/User/globalStorage/<extension> or <userData>/User/profiles/<id>/globalStorage/<extension>
+ */
+function fromGlobalStoragePath(storagePath: string): string | undefined {
+	const match = storagePath.match(
+		/^(.*)[\\/]User[\\/](?:profiles[\\/][^\\/]+[\\/])?globalStorage(?:[\\/]|$)/,
+	);
+	return match?.[1];
+}
+
+/**
+ * Accepts the user data directory itself or its User folder
+ */
+function toUserDataPath(configured: string): string {
+	const resolved = path.resolve(configured);
+	return path.basename(resolved) === "User" ? path.dirname(resolved) : resolved;
+}
+
+function expandHome(value: string): string {
+	return value === "~" || value.startsWith("~/") || value.startsWith("~\\")
+		? path.join(os.homedir(), value.slice(1))
+		: value;
+}
+
+/**
+ * Folders editors keep their user data in on this OS, most specific first
+ */
+function getAppDataBases(): string[] {
+	const home = os.homedir();
+	const bases: (string | undefined)[] = [process.env.VSCODE_APPDATA];
+
+	switch (process.platform) {
+		case "darwin":
+			bases.push(path.join(home, "Library", "Application Support"));
+			break;
+		case "win32":
+			bases.push(process.env.APPDATA, path.join(home, "AppData", "Roaming"));
+			break;
+		default:
+			bases.push(
+				process.env.XDG_CONFIG_HOME,
+				// Flatpak keeps each app's config in its own sandbox folder
+				process.env.FLATPAK_ID
+					? path.join(home, ".var", "app", process.env.FLATPAK_ID, "config")
+					: undefined,
+				path.join(home, ".config"),
+			);
+	}
+
+	return [...new Set(bases.filter((base): base is string => !!base))];
+}
+
+function hasUserFolder(candidatePath: string): boolean {
+	try {
+		return fs.statSync(path.join(candidatePath, "User")).isDirectory();
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,88 @@
+import * as path from "path";
+import * as vscode from "vscode";
+
+/**
+ * File access for workspace files through vscode.workspace.fs, so settings are read
+ * from and written to the machine holding the workspace: the local disk, a remote
+ * (SSH, WSL, Dev Containers) or a virtual file system (vscode-vfs).
+ *
+ * Files are named by a string where a plain string is needed (rule sources, messages):
+ * local files by their path, any other scheme by its URI, as VS Code shows them.
+ */
+
+/**
+ * Gets the string naming a file: its path for local files, its URI otherwise
+ */
+export function toFileName(uri: vscode.Uri): string {
+	return uri.scheme === "file" ? uri.fsPath : uri.toString();
+}
+
+/**
+ * Gets the URI of a file named by toFileName
+ */
+export function fromFileName(file: string): vscode.Uri {
+	return path.isAbsolute(file) ? vscode.Uri.file(file) : vscode.Uri.parse(file);
+}
+
+/**
+ * Gets the path of a URI relative to a workspace folder, using / on every platform
+ * Returns "" for the folder itself
+ */
+export function getRelativePath(folderUri: vscode.Uri, uri: vscode.Uri): string {
+	return path.posix.relative(folderUri.path, uri.path);
+}
+
+/**
+ * Gets the type of a file or folder
+ * Returns undefined if it doesn't exist
+ */
+export async function statFile(uri: vscode.Uri): Promise<vscode.FileType | undefined> {
+	try {
+		return (await vscode.workspace.fs.stat(uri)).type;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Returns true if a URI names an existing file (not a folder)
+ */
+export async function isFile(uri: vscode.Uri): Promise<boolean> {
+	const type = await statFile(uri);
+	return type !== undefined && (type & vscode.FileType.File) !== 0;
+}
+
+/**
+ * Reads a UTF-8 text file
+ * Returns undefined if the file doesn't exist; other errors are thrown
+ */
+export async function readTextFile(uri: vscode.Uri): Promise<string | undefined> {
+	try {
+		return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+	} catch (error) {
+		if (error instanceof vscode.FileSystemError && error.code === "FileNotFound") {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Writes a UTF-8 text file, creating its folder if needed
+ */
+export async function writeTextFile(uri: vscode.Uri, content: string): Promise<void> {
+	await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, ".."));
+	await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+}
+
+/**
+ * Lists the names of the entries of a folder
+ * Returns an empty list if the folder doesn't exist
+ */
+export async function readDirectoryNames(uri: vscode.Uri): Promise<string[]> {
+	try {
+		return (await vscode.workspace.fs.readDirectory(uri)).map(([name]) => name);
+	} catch {
+		return [];
+	}
+}
@@ -0,0 +1,279 @@
+import { findNodeAtLocation, parseTree } from "jsonc-parser";
+import * as vscode from "vscode";
+import { updateMappedFoldersContext } from "../commands/manageMappings";
+import type { ConfigurationService } from "../utils/configurationService";
+import { isGlobPattern } from "../utils/pathMatcher";
+import { getAvailableProfiles } from "../utils/profileManager";
+import { describeRule, describeScope, type ProfileRule } from "../utils/profileResolver";
+import { collectProfileRules } from "../utils/profileRules";
+import { getRuleLocation, updateRuleAtSource } from "../utils/settingsTargets";
+import { statFile } from "../utils/workspaceFs";
+
+export const MAPPINGS_VIEW_ID = "profileSwitcher.mappings";
+
+const REFRESH_COMMAND = "profileSwitcher.refreshMappings";
+const CHANGE_PROFILE_COMMAND = "profileSwitcher.changeMappingProfile";
+const REVEAL_FOLDER_COMMAND = "profileSwitcher.revealMappingFolder";
+const REMOVE_MAPPING_COMMAND = "profileSwitcher.removeMapping";
+const OPEN_SOURCE_COMMAND = "profileSwitcher.openMappingSource";
+
+interface FolderNode {
+	type: "folder";
+	folder: vscode.WorkspaceFolder;
+	rules: ProfileRule[];
+}
+
+interface RuleNode {
+	type: "rule";
+	folder: vscode.WorkspaceFolder;
+	rule: ProfileRule;
+	/** Narrower rule with the same key that overrides this one */
+	shadowedBy?: ProfileRule;
+}
+
+type MappingNode = FolderNode | RuleNode;
+
+/**
+ * Explorer view listing the workspace profile, remote and directory rules of each
+ * workspace folder, from every settings scope, with inline actions to edit them in place.
+ */
+export class ProfileMappingsTree
+	implements vscode.TreeDataProvider<MappingNode>, vscode.Disposable
+{
+	private readonly changeEmitter = new vscode.EventEmitter<MappingNode | undefined>();
+	private readonly disposables: vscode.Disposable[] = [];
+
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	constructor(configuration: ConfigurationService) {
+		this.disposables.push(
+			this.changeEmitter,
+			vscode.window.createTreeView(MAPPINGS_VIEW_ID, { treeDataProvider: this }),
+			vscode.commands.registerCommand(REFRESH_COMMAND, () => this.refresh()),
+			vscode.commands.registerCommand(CHANGE_PROFILE_COMMAND, (node: RuleNode) =>
+				this.changeProfile(node),
+			),
+			vscode.commands.registerCommand(REVEAL_FOLDER_COMMAND, (node: RuleNode) =>
+				this.revealFolder(node),
+			),
+			vscode.commands.registerCommand(REMOVE_MAPPING_COMMAND, (node: RuleNode) =>
+				this.removeMapping(node),
+			),
+			vscode.commands.registerCommand(OPEN_SOURCE_COMMAND, (node: RuleNode) => this.openSource(node)),
+			configuration.onDidChangeMappings(() => this.refresh()),
+		);
+
+		updateMappedFoldersContext();
+	}
+
+	/**
+	 * Reloads the view and the context key of the Explorer menu
+	 */
+	refresh(): void {
+		this.changeEmitter.fire(undefined);
+		updateMappedFoldersContext();
+	}
+
+	getChildren(node?: MappingNode): MappingNode[] {
+		if (node?.type === "folder") {
+			return node.rules.map((rule, index) => ({
+				type: "rule",
+				folder: node.folder,
+				rule,
+				// Rules are collected narrowest scope first
+				shadowedBy: node.rules
+					.slice(0, index)
+					.find((other) => other.kind === rule.kind && other.pattern === rule.pattern),
+			}));
+		}
+		if (node) {
+			return [];
+		}
+
+		// Folders without rules are left out so the welcome view shows when nothing is configured
+		return (vscode.workspace.workspaceFolders ?? [])
+			.map(
+				(folder): FolderNode => ({
+					type: "folder",
+					folder,
+					rules: collectProfileRules(folder).filter(
+						(rule) => rule.kind === "workspace" || rule.kind === "remote" || rule.kind === "directory",
+					),
+				}),
+			)
+			.filter((folderNode) => folderNode.rules.length > 0);
+	}
+
+	async getTreeItem(node: MappingNode): Promise<vscode.TreeItem> {
+		if (node.type === "folder") {
+			const item = new vscode.TreeItem(node.folder.name, vscode.TreeItemCollapsibleState.Expanded);
+			item.resourceUri = node.folder.uri;
+			item.iconPath = vscode.ThemeIcon.Folder;
+			item.contextValue = "folder";
+			return item;
+		}
+
+		const { rule, shadowedBy } = node;
+		const label =
+			rule.kind === "workspace"
+				? "Workspace profile"
+				: rule.kind === "remote"
+					? `Remote: ${rule.pattern}`
+					: (rule.pattern ?? "");
+		const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+
+		const notes = [describeScope(rule.source.scope)];
+		if (shadowedBy) {
+			notes.push(`overridden by ${describeScope(shadowedBy.source.scope)}`);
+		}
+		if (rule.options?.enabled === false) {
+			notes.push("disabled");
+		}
+		if (rule.options?.when) {
+			notes.push("conditional");
+		}
+		item.description = `${rule.profile} · ${notes.join(", ")}`;
+
+		item.iconPath = new vscode.ThemeIcon(
+			rule.options?.enabled === false
+				? "circle-slash"
+				: rule.kind === "workspace"
+					? "account"
+					: rule.kind === "remote"
+						? "remote"
+						: rule.pattern?.startsWith("!")
+							? "exclude"
+							: "folder",
+		);
+
+		const tooltip = new vscode.MarkdownString();
+		tooltip.appendMarkdown(`**${rule.profile}** (${describeRule(rule)})\n\n`);
+		tooltip.appendMarkdown(`Defined in ${describeScope(rule.source.scope)} settings`);
+		if (rule.source.file) {
+			tooltip.appendMarkdown(`: \`${rule.source.file}\``);
+		}
+		if (rule.options?.when) {
+			tooltip.appendMarkdown(`\n\nOnly applies when \`${JSON.stringify(rule.options.when)}\``);
+		}
+		if (rule.options?.description) {
+			tooltip.appendMarkdown(`\n\n${rule.options.description}`);
+		}
+		item.tooltip = tooltip;
+
+		// Menus in package.json match these flags with viewItem =~ /\bflag\b/
+		const flags = ["rule"];
+		if (await this.getRuleFolder(node)) {
+			flags.push("revealable");
+		}
+		if (rule.source.scope === "user" || getRuleLocation(node.folder, rule)) {
+			flags.push("hasSource");
+		}
+		item.contextValue = flags.join(" ");
+
+		return item;
+	}
+
+	private async changeProfile(node: RuleNode): Promise<void> {
+		const { folder, rule } = node;
+		const profiles = await getAvailableProfiles();
+		const selected = await vscode.window.showQuickPick(
+			profiles.map((profile) => ({
+				label: profile,
+				description: profile === rule.profile ? "current" : undefined,
+			})),
+			{ placeHolder: `Select a profile for the ${describeRule(rule)}` },
+		);
+		if (!selected || selected.label === rule.profile) {
+			return;
+		}
+
+		try {
+			// Keep the rule's options when it is written as an object
+			await updateRuleAtSource(
+				folder,
+				rule,
+				rule.options ? { ...rule.options, profile: selected.label } : selected.label,
+			);
+		} catch (error) {
+			vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+			return;
+		}
+		this.refresh();
+	}
+
+	private async revealFolder(node: RuleNode): Promise<void> {
+		const folder = await this.getRuleFolder(node);
+		if (folder) {
+			await vscode.commands.executeCommand("revealInExplorer", folder);
+		}
+	}
+
+	private async removeMapping(node: RuleNode): Promise<void> {
+		const { folder, rule } = node;
+		const confirmation = await vscode.window.showWarningMessage(
+			`Remove the ${describeRule(rule)} ("${rule.profile}") from ${describeScope(rule.source.scope)} settings?`,
+			{ modal: true },
+			"Remove",
+		);
+		if (confirmation !== "Remove") {
+			return;
+		}
+
+		try {
+			await updateRuleAtSource(folder, rule, undefined);
+		} catch (error) {
+			vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+			return;
+		}
+		this.refresh();
+	}
+
+	/**
+	 * Opens the settings file defining the rule, with the rule's value selected
+	 */
+	private async openSource(node: RuleNode): Promise<void> {
+		const location = getRuleLocation(node.folder, node.rule);
+		if (!location) {
+			if (node.rule.source.scope === "user") {
+				await vscode.commands.executeCommand("workbench.action.openSettingsJson");
+			}
+			return;
+		}
+
+		const document = await vscode.workspace.openTextDocument(location.file);
+		const root = parseTree(document.getText());
+		const value = root ? findNodeAtLocation(root, location.jsonPath) : undefined;
+		const selection = value
+			? new vscode.Range(
+					document.positionAt(value.offset),
+					document.positionAt(value.offset + value.length),
+				)
+			: undefined;
+
+		await vscode.window.showTextDocument(document, { selection });
+	}
+
+	/**
+	 * Folder a directory rule points at, when it is a plain path that exists
+	 */
+	private async getRuleFolder(node: RuleNode): Promise<vscode.Uri | undefined> {
+		const { folder, rule } = node;
+		if (rule.kind === "workspace") {
+			return folder.uri;
+		}
+
+		const pattern = (rule.pattern ?? "").replace(/^!/, "");
+		if (rule.kind !== "directory" || isGlobPattern(pattern)) {
+			return undefined;
+		}
+
+		const ruleFolder = vscode.Uri.joinPath(folder.uri, pattern);
+		return (await statFile(ruleFolder)) !== undefined ? ruleFolder : undefined;
+	}
+
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+}
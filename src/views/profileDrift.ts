@@ -0,0 +1,359 @@
+import { findNodeAtLocation, type Node, parseTree } from "jsonc-parser";
+import * as vscode from "vscode";
+import { SettingsFileError } from "../utils/jsoncSettings";
+import { computeDrift, type DriftItem, driftKey } from "../utils/manifestDrift";
+import { getRunningProfileName } from "../utils/profileManager";
+import {
+	getManifestUri,
+	MANIFEST_FILE_NAME,
+	readManifest,
+	readProfileExtensions,
+	readProfileSettings,
+} from "../utils/profileManifest";
+import { getProfileRegistry, type ProfileInfo } from "../utils/profileRegistry";
+
+export const CHECK_DRIFT_COMMAND = "profileSwitcher.checkProfileDrift";
+const INSTALL_EXTENSION_COMMAND = "profileSwitcher.installManifestExtension";
+const APPLY_SETTING_COMMAND = "profileSwitcher.applyManifestSetting";
+const IGNORE_DRIFT_COMMAND = "profileSwitcher.ignoreProfileDrift";
+
+const IGNORED_STATE_KEY = "profileSwitcher.ignoredProfileDrift";
+
+/**
+ * Compares the running profile with the team profile manifest (see profileManifest.ts)
+ * and reports drift in the Problems view, with quick fixes to install a missing
+ * extension, apply an expected setting or ignore the item.
+ */
+export class ProfileDriftChecker implements vscode.CodeActionProvider, vscode.Disposable {
+	private readonly diagnostics =
+		vscode.languages.createDiagnosticCollection("profileSwitcher.drift");
+	/**
+	 * Reported items by manifest URI and diagnostic code; code actions get diagnostics
+	 * that aren't necessarily the objects reported, so they are looked up by code
+	 */
+	private items = new Map<string, DriftItem>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private checkId = 0;
+
+	constructor(private readonly context: vscode.ExtensionContext) {
+		const watcher = vscode.workspace.createFileSystemWatcher(`**/.vscode/${MANIFEST_FILE_NAME}`);
+
+		this.disposables.push(
+			this.diagnostics,
+			watcher,
+			watcher.onDidCreate(() => this.check()),
+			watcher.onDidChange(() => this.check()),
+			watcher.onDidDelete(() => this.check()),
+			vscode.languages.registerCodeActionsProvider(
+				{ pattern: `**/.vscode/${MANIFEST_FILE_NAME}` },
+				this,
+				{ providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] },
+			),
+			vscode.commands.registerCommand(CHECK_DRIFT_COMMAND, () => this.checkAndShow()),
+			vscode.commands.registerCommand(INSTALL_EXTENSION_COMMAND, (item: DriftItem) =>
+				this.installExtension(item),
+			),
+			vscode.commands.registerCommand(APPLY_SETTING_COMMAND, (item: DriftItem) =>
+				this.applySetting(item),
+			),
+			vscode.commands.registerCommand(IGNORE_DRIFT_COMMAND, (item: DriftItem) => this.ignore(item)),
+			vscode.extensions.onDidChange(() => this.check()),
+			vscode.workspace.onDidChangeConfiguration(() => this.check()),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.check()),
+			getProfileRegistry().onDidChangeProfiles(() => this.check()),
+		);
+
+		this.check();
+	}
+
+	/**
+	 * Re-checks every workspace folder's manifest against the running profile
+	 */
+	async check(): Promise<void> {
+		const checkId = ++this.checkId;
+		const running = await getRunningProfileName(this.context.globalStorageUri);
+		const profile = running ? await getProfileRegistry().findByName(running) : undefined;
+		const ignored = new Set(this.context.workspaceState.get<string[]>(IGNORED_STATE_KEY, []));
+		const results: [vscode.Uri, vscode.Diagnostic[]][] = [];
+		const items = new Map<string, DriftItem>();
+
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			const manifestUri = getManifestUri(folder.uri);
+			try {
+				const manifest = await readManifest(folder.uri);
+				const entry = running ? manifest?.profiles[running] : undefined;
+				if (!running || !entry) {
+					continue;
+				}
+
+				const drift = computeDrift(
+					running,
+					entry,
+					await this.getInstalledExtensions(profile),
+					await this.getProfileSettings(profile),
+				).filter((item) => !ignored.has(driftKey(item)));
+
+				results.push([manifestUri, await this.toDiagnostics(manifestUri, drift, items)]);
+			} catch (error) {
+				const message =
+					error instanceof SettingsFileError
+						? error.details
+						: error instanceof Error
+							? error.message
+							: String(error);
+				const diagnostic = new vscode.Diagnostic(
+					new vscode.Range(0, 0, 0, 0),
+					`Profile drift could not be checked: ${message}`,
+					vscode.DiagnosticSeverity.Error,
+				);
+				diagnostic.source = "Profile Switcher";
+				results.push([manifestUri, [diagnostic]]);
+			}
+		}
+
+		// A newer check started while this one was reading files
+		if (checkId !== this.checkId) {
+			return;
+		}
+		this.items = items;
+		this.diagnostics.clear();
+		for (const [uri, diagnostics] of results) {
+			this.diagnostics.set(uri, diagnostics);
+		}
+	}
+
+	provideCodeActions(
+		document: vscode.TextDocument,
+		_range: vscode.Range | vscode.Selection,
+		context: vscode.CodeActionContext,
+	): vscode.CodeAction[] {
+		const actions: vscode.CodeAction[] = [];
+
+		for (const diagnostic of context.diagnostics) {
+			const item = this.items.get(itemId(document.uri, diagnostic.code));
+			if (!item) {
+				continue;
+			}
+
+			if (item.kind === "missingExtension") {
+				actions.push(
+					this.createAction(`Install ${item.key}`, INSTALL_EXTENSION_COMMAND, item, diagnostic, true),
+				);
+			} else if (item.kind === "settingMismatch") {
+				actions.push(
+					this.createAction(
+						`Apply "${item.key}": ${JSON.stringify(item.expected)} to profile "${item.profile}"`,
+						APPLY_SETTING_COMMAND,
+						item,
+						diagnostic,
+						true,
+					),
+				);
+			}
+
+			actions.push(
+				this.createAction("Ignore for this workspace", IGNORE_DRIFT_COMMAND, item, diagnostic),
+			);
+		}
+
+		return actions;
+	}
+
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	private async checkAndShow(): Promise<void> {
+		await this.check();
+
+		let count = 0;
+		this.diagnostics.forEach((_uri, diagnostics) => {
+			count += diagnostics.length;
+		});
+
+		if (count === 0) {
+			vscode.window.showInformationMessage("The running profile matches the team profile manifest.");
+			return;
+		}
+		await vscode.commands.executeCommand("workbench.actions.view.problems");
+	}
+
+	private async installExtension(item: DriftItem): Promise<void> {
+		if (!(await this.isRunning(item.profile))) {
+			return;
+		}
+		try {
+			await vscode.commands.executeCommand("workbench.extensions.installExtension", item.key);
+		} catch (error) {
+			vscode.window.showErrorMessage(
+				`Could not install ${item.key}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		await this.check();
+	}
+
+	private async applySetting(item: DriftItem): Promise<void> {
+		// User settings are the running profile's settings
+		if (!(await this.isRunning(item.profile))) {
+			return;
+		}
+		await vscode.workspace
+			.getConfiguration()
+			.update(item.key, item.expected, vscode.ConfigurationTarget.Global);
+		await this.check();
+	}
+
+	private async ignore(item: DriftItem): Promise<void> {
+		const ignored = this.context.workspaceState.get<string[]>(IGNORED_STATE_KEY, []);
+		await this.context.workspaceState.update(IGNORED_STATE_KEY, [...ignored, driftKey(item)]);
+		await this.check();
+	}
+
+	/**
+	 * Returns true when the profile an item was reported for is still running; quick fixes
+	 * change the running profile, so they are refused (and the drift re-checked) otherwise
+	 */
+	private async isRunning(profile: string): Promise<boolean> {
+		const running = await getRunningProfileName(this.context.globalStorageUri);
+		if (running === profile) {
+			return true;
+		}
+
+		vscode.window.showWarningMessage(
+			`This problem was reported for profile "${profile}", but "${running ?? "an unknown profile"}" is running now. Switch to "${profile}" to fix it.`,
+		);
+		await this.check();
+		return false;
+	}
+
+	/**
+	 * Reads the profile's extensions.json; the running extension host is used for the
+	 * Default profile and profiles sharing extensions with it
+	 * This extension is left out: it runs in every profile that uses the manifest
+	 */
+	private async getInstalledExtensions(profile: ProfileInfo | undefined): Promise<string[]> {
+		const fromFile =
+			profile && !profile.isDefault && !profile.sharedWithDefault.extensions
+				? readProfileExtensions(profile.location)
+				: undefined;
+		const ownId = this.context.extension.id.toLowerCase();
+
+		return (
+			fromFile ??
+			vscode.extensions.all
+				.filter((extension) => !extension.packageJSON?.isBuiltin)
+				.map((extension) => extension.id)
+		).filter((id) => id.toLowerCase() !== ownId);
+	}
+
+	/**
+	 * Reads the profile's settings.json, or Default's when the profile shares settings with it
+	 */
+	private async getProfileSettings(
+		profile: ProfileInfo | undefined,
+	): Promise<Record<string, unknown>> {
+		if (!profile) {
+			return {};
+		}
+
+		const settingsProfile = profile.sharedWithDefault.settings
+			? (await getProfileRegistry().getProfiles()).find((candidate) => candidate.isDefault)
+			: profile;
+
+		return settingsProfile?.location ? readProfileSettings(settingsProfile.location) : {};
+	}
+
+	/**
+	 * Creates the diagnostics for a manifest's drift, adding the items to the map by code
+	 */
+	private async toDiagnostics(
+		manifestUri: vscode.Uri,
+		drift: DriftItem[],
+		items: Map<string, DriftItem>,
+	): Promise<vscode.Diagnostic[]> {
+		if (drift.length === 0) {
+			return [];
+		}
+
+		const document = await vscode.workspace.openTextDocument(manifestUri);
+		const root = parseTree(document.getText());
+		const rangeOf = (...jsonPath: (string | number)[]): vscode.Range => {
+			const node: Node | undefined = root ? findNodeAtLocation(root, jsonPath) : undefined;
+			return node
+				? new vscode.Range(
+						document.positionAt(node.offset),
+						document.positionAt(node.offset + node.length),
+					)
+				: new vscode.Range(0, 0, 0, 0);
+		};
+
+		return drift.map((item) => {
+			let diagnostic: vscode.Diagnostic;
+
+			switch (item.kind) {
+				case "missingExtension": {
+					const extensions = root
+						? findNodeAtLocation(root, ["profiles", item.profile, "extensions"])
+						: undefined;
+					const index =
+						extensions?.children?.findIndex(
+							(node) =>
+								typeof node.value === "string" && node.value.toLowerCase() === item.key.toLowerCase(),
+						) ?? 0;
+					diagnostic = new vscode.Diagnostic(
+						rangeOf("profiles", item.profile, "extensions", Math.max(index, 0)),
+						`Profile "${item.profile}" is missing extension ${item.key}`,
+						vscode.DiagnosticSeverity.Warning,
+					);
+					break;
+				}
+				case "extraExtension":
+					diagnostic = new vscode.Diagnostic(
+						rangeOf("profiles", item.profile, "extensions"),
+						`Extension ${item.key} is installed in profile "${item.profile}" but not listed in the manifest`,
+						vscode.DiagnosticSeverity.Information,
+					);
+					break;
+				case "settingMismatch":
+					diagnostic = new vscode.Diagnostic(
+						rangeOf("profiles", item.profile, "settings", item.key),
+						item.actual === undefined
+							? `"${item.key}" is not set in profile "${item.profile}", the manifest expects ${JSON.stringify(item.expected)}`
+							: `"${item.key}" is ${JSON.stringify(item.actual)} in profile "${item.profile}", the manifest expects ${JSON.stringify(item.expected)}`,
+						vscode.DiagnosticSeverity.Warning,
+					);
+					break;
+			}
+
+			diagnostic.source = "Profile Switcher";
+			diagnostic.code = `${item.kind}:${item.key}`;
+			items.set(itemId(manifestUri, diagnostic.code), item);
+			return diagnostic;
+		});
+	}
+
+	private createAction(
+		title: string,
+		command: string,
+		item: DriftItem,
+		diagnostic: vscode.Diagnostic,
+		isPreferred = false,
+	): vscode.CodeAction {
+		const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+		action.command = { title, command, arguments: [item] };
+		action.diagnostics = [diagnostic];
+		action.isPreferred = isPreferred;
+		return action;
+	}
+}
+
+/**
+ * Identity of a reported item: its manifest and diagnostic code (kind and key; only the
+ * running profile is checked)
+ */
+function itemId(manifestUri: vscode.Uri, code: vscode.Diagnostic["code"]): string {
+	const value = typeof code === "object" ? code.value : code;
+	return `${manifestUri.toString()}\n${value}`;
+}
@@ -0,0 +1,295 @@
+import { findNodeAtLocation, modify, type Node, parseTree } from "jsonc-parser";
+import * as vscode from "vscode";
+import type { ConfigurationService } from "../utils/configurationService";
+import { DiagnosticIndex } from "../utils/diagnosticIndex";
+import { detectFormatting } from "../utils/jsoncSettings";
+import { getProfileRegistry } from "../utils/profileRegistry";
+import { collectProfileRules } from "../utils/profileRules";
+import {
+	type RuleFileSystem,
+	type RuleFileType,
+	type RuleProblem,
+	type RuleProblemKind,
+	type RuleProblemSeverity,
+	validateRules,
+} from "../utils/ruleValidation";
+import { getRuleLocation } from "../utils/settingsTargets";
+import { readDirectoryNames, statFile, toFileName } from "../utils/workspaceFs";
+
+/** How long to wait after a change before validating, so bulk file operations validate once */
+const VALIDATE_DELAY_MS = 500;
+
+/** Problems that depend on the workspace folder a directory key is resolved against */
+const PATH_PROBLEMS: ReadonlySet<RuleProblemKind> = new Set([
+	"missingPath",
+	"missingTrailingSlash",
+	"fileWithTrailingSlash",
+	"absolutePath",
+]);
+
+const SEVERITIES: Record<RuleProblemSeverity, vscode.DiagnosticSeverity> = {
+	error: vscode.DiagnosticSeverity.Error,
+	warning: vscode.DiagnosticSeverity.Warning,
+	information: vscode.DiagnosticSeverity.Information,
+};
+
+interface ReportedProblem {
+	problem: RuleProblem;
+	file: vscode.Uri;
+	jsonPath: string[];
+	/** Number of workspace folders reporting the problem */
+	count: number;
+}
+
+/**
+ * Validates the profile rules of every workspace folder (see ruleValidation.ts) and
+ * reports problems on the settings files defining them, with quick fixes to rename
+ * a key or profile to the closest match or to remove the rule.
+ *
+ * Rules in personal mappings and user settings have no file to report on and are skipped.
+ */
+export class RuleDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+	private readonly diagnostics =
+		vscode.languages.createDiagnosticCollection("profileSwitcher.rules");
+	/** Reported problems, rebuilt by each validation */
+	private problems = new DiagnosticIndex<ReportedProblem>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private validateId = 0;
+	private timer: ReturnType<typeof setTimeout> | undefined;
+
+	constructor(configuration: ConfigurationService) {
+		const schedule = () => this.scheduleValidation();
+
+		this.disposables.push(
+			this.diagnostics,
+			vscode.languages.registerCodeActionsProvider(
+				[{ language: "json" }, { language: "jsonc" }],
+				this,
+				{ providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] },
+			),
+			configuration.onDidChangeMappings(schedule),
+			// Renamed or deleted folders make directory keys stale
+			vscode.workspace.onDidCreateFiles(schedule),
+			vscode.workspace.onDidDeleteFiles(schedule),
+			vscode.workspace.onDidRenameFiles(schedule),
+			getProfileRegistry().onDidChangeProfiles(schedule),
+			{ dispose: () => clearTimeout(this.timer) },
+		);
+
+		this.validate();
+	}
+
+	/**
+	 * Re-validates the rules of every workspace folder
+	 */
+	async validate(): Promise<void> {
+		const validateId = ++this.validateId;
+		const folders = vscode.workspace.workspaceFolders ?? [];
+		const profiles = await getProfileRegistry().getProfiles();
+
+		// Without a readable profile storage every profile name would look unknown
+		const profileNames = profiles.some((profile) => profile.location)
+			? profiles.map((profile) => profile.name)
+			: undefined;
+
+		// Rules from a .code-workspace file are collected once per folder
+		const reported = new Map<string, ReportedProblem>();
+		for (const folder of folders) {
+			for (const problem of await validateRules(
+				folder.uri.fsPath,
+				getRuleFileSystem(folder),
+				collectProfileRules(folder),
+				profileNames,
+			)) {
+				const location = getRuleLocation(folder, problem.rule);
+				if (!location) {
+					continue;
+				}
+
+				const id = JSON.stringify([location.file.toString(), location.jsonPath, problem.kind]);
+				const existing = reported.get(id);
+				if (existing) {
+					existing.count++;
+				} else {
+					reported.set(id, { problem, ...location, count: 1 });
+				}
+			}
+		}
+
+		const byFile = new Map<string, { file: vscode.Uri; entries: ReportedProblem[] }>();
+		for (const entry of reported.values()) {
+			// A directory key of the workspace file only needs to exist in one folder
+			if (
+				entry.problem.rule.source.scope === "workspace" &&
+				PATH_PROBLEMS.has(entry.problem.kind) &&
+				entry.count < folders.length
+			) {
+				continue;
+			}
+			const key = entry.file.toString();
+			byFile.set(key, {
+				file: entry.file,
+				entries: [...(byFile.get(key)?.entries ?? []), entry],
+			});
+		}
+
+		const results: [vscode.Uri, vscode.Diagnostic[]][] = [];
+		const problems = new DiagnosticIndex<ReportedProblem>();
+		for (const { file, entries } of byFile.values()) {
+			try {
+				const document = await vscode.workspace.openTextDocument(file);
+				const root = parseTree(document.getText());
+				results.push([
+					file,
+					entries.map((entry) => this.toDiagnostic(document, root, entry, problems)),
+				]);
+			} catch (error) {
+				console.error(`Error reading ${toFileName(file)} to report profile rule problems:`, error);
+			}
+		}
+
+		// A newer validation started while this one was reading files
+		if (validateId !== this.validateId) {
+			return;
+		}
+		this.problems = problems;
+		this.diagnostics.clear();
+		for (const [uri, diagnostics] of results) {
+			this.diagnostics.set(uri, diagnostics);
+		}
+	}
+
+	provideCodeActions(
+		document: vscode.TextDocument,
+		_range: vscode.Range | vscode.Selection,
+		context: vscode.CodeActionContext,
+	): vscode.CodeAction[] {
+		const actions: vscode.CodeAction[] = [];
+		const text = document.getText();
+		const root = parseTree(text);
+
+		for (const diagnostic of context.diagnostics) {
+			const entry = this.problems.get(document.uri.toString(), diagnostic);
+			if (!entry) {
+				continue;
+			}
+			const { problem, jsonPath } = entry;
+
+			const node = root ? findTargetNode(root, jsonPath, problem) : undefined;
+			if (problem.suggestion && node) {
+				const title =
+					problem.target === "key"
+						? `Rename to "${problem.suggestion}"`
+						: `Change profile to "${problem.suggestion}"`;
+				const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+				action.edit = new vscode.WorkspaceEdit();
+				action.edit.replace(document.uri, rangeOf(document, node), JSON.stringify(problem.suggestion));
+				action.diagnostics = [diagnostic];
+				action.isPreferred = true;
+				actions.push(action);
+			}
+
+			const edits = modify(text, jsonPath, undefined, {
+				formattingOptions: detectFormatting(text),
+			});
+			if (edits.length > 0) {
+				const action = new vscode.CodeAction("Remove rule", vscode.CodeActionKind.QuickFix);
+				action.edit = new vscode.WorkspaceEdit();
+				for (const edit of edits) {
+					action.edit.replace(
+						document.uri,
+						new vscode.Range(
+							document.positionAt(edit.offset),
+							document.positionAt(edit.offset + edit.length),
+						),
+						edit.content,
+					);
+				}
+				action.diagnostics = [diagnostic];
+				actions.push(action);
+			}
+		}
+
+		return actions;
+	}
+
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+
+	private scheduleValidation(): void {
+		clearTimeout(this.timer);
+		this.timer = setTimeout(() => this.validate(), VALIDATE_DELAY_MS);
+	}
+
+	/**
+	 * Creates the diagnostic for a problem, adding the problem to the index
+	 */
+	private toDiagnostic(
+		document: vscode.TextDocument,
+		root: Node | undefined,
+		entry: ReportedProblem,
+		problems: DiagnosticIndex<ReportedProblem>,
+	): vscode.Diagnostic {
+		const node = root ? findTargetNode(root, entry.jsonPath, entry.problem) : undefined;
+
+		const diagnostic = new vscode.Diagnostic(
+			node ? rangeOf(document, node) : new vscode.Range(0, 0, 0, 0),
+			entry.problem.message,
+			SEVERITIES[entry.problem.severity],
+		);
+		diagnostic.source = "Profile Switcher";
+		diagnostic.code = entry.problem.kind;
+		if (entry.problem.kind === "duplicate") {
+			diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+		}
+
+		problems.set(document.uri.toString(), diagnostic, entry);
+		return diagnostic;
+	}
+}
+
+/**
+ * Reads a workspace folder through vscode.workspace.fs, so remote folders are checked
+ * on the machine holding them
+ */
+function getRuleFileSystem(folder: vscode.WorkspaceFolder): RuleFileSystem {
+	const toType = (type: vscode.FileType | undefined): RuleFileType | undefined =>
+		type === undefined ? undefined : type & vscode.FileType.Directory ? "directory" : "file";
+
+	return {
+		stat: async (relativePath) =>
+			toType(await statFile(vscode.Uri.joinPath(folder.uri, relativePath))),
+		statAbsolute: async (absolutePath) =>
+			toType(
+				await statFile(
+					folder.uri.scheme === "file"
+						? vscode.Uri.file(absolutePath)
+						: folder.uri.with({ path: absolutePath }),
+				),
+			),
+		readDirectory: (relativePath) =>
+			readDirectoryNames(vscode.Uri.joinPath(folder.uri, relativePath)),
+	};
+}
+
+/**
+ * Finds the property key or the profile name a problem is about
+ */
+function findTargetNode(root: Node, jsonPath: string[], problem: RuleProblem): Node | undefined {
+	const value = findNodeAtLocation(root, jsonPath);
+	if (problem.target === "key") {
+		return value?.parent?.children?.[0];
+	}
+	// A rule written as an object keeps its profile name in "profile"
+	return value?.type === "object" ? findNodeAtLocation(value, ["profile"]) : value;
+}
+
+function rangeOf(document: vscode.TextDocument, node: Node): vscode.Range {
+	return new vscode.Range(
+		document.positionAt(node.offset),
+		document.positionAt(node.offset + node.length),
+	);
+}
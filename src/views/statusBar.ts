@@ -0,0 +1,219 @@
+import * as vscode from "vscode";
+import { selectProfileForWorkspace } from "../commands/selectProfile";
+import { selectProfileForFolder } from "../commands/selectProfileForFolder";
+import type { ConfigurationService } from "../utils/configurationService";
+import {
+	getActiveFileUri,
+	getExpectedDecision,
+	getRunningProfileName,
+} from "../utils/profileManager";
+import { getProfileRegistry } from "../utils/profileRegistry";
+import { describeRule } from "../utils/profileResolver";
+import type { WorkspaceProfileDecision } from "../utils/profileRules";
+import {
+	pickSettingsTarget,
+	writeDirectoryProfile,
+	writeWorkspaceProfile,
+} from "../utils/settingsTargets";
+import type { SwitchScheduler } from "../utils/switchScheduler";
+import { getRelativePath } from "../utils/workspaceFs";
+
+export const STATUS_BAR_COMMAND = "profileSwitcher.showStatusBarActions";
+
+interface StatusBarAction extends vscode.QuickPickItem {
+	run: () => Promise<void>;
+}
+
+/**
+ * Status bar item showing the profile expected for the active file.
+ * Turns into a warning when the expected profile differs from the running one.
+ */
+export class ProfileStatusBar implements vscode.Disposable {
+	private readonly item: vscode.StatusBarItem;
+	private readonly disposables: vscode.Disposable[] = [];
+	private decision: WorkspaceProfileDecision | undefined;
+	private activeProfile: string | undefined;
+	private updateId = 0;
+
+	constructor(
+		private readonly context: vscode.ExtensionContext,
+		configuration: ConfigurationService,
+		private readonly scheduler: SwitchScheduler,
+	) {
+		this.item = vscode.window.createStatusBarItem(
+			"profileSwitcher.status",
+			vscode.StatusBarAlignment.Left,
+			0,
+		);
+		this.item.name = "Profile Switcher";
+		this.item.command = STATUS_BAR_COMMAND;
+
+		this.disposables.push(
+			this.item,
+			vscode.commands.registerCommand(STATUS_BAR_COMMAND, () => this.showActions()),
+			configuration.onDidChangeActiveFile(() => this.refresh()),
+			configuration.onDidChangeMappings(() => this.refresh()),
+			getProfileRegistry().onDidChangeProfiles(() => this.refresh()),
+		);
+
+		this.refresh();
+	}
+
+	/**
+	 * Runs update without waiting for it, logging failures
+	 */
+	refresh(): void {
+		this.update().catch((error) => console.error("Error updating the profile status bar:", error));
+	}
+
+	/**
+	 * Re-resolves the expected profile and refreshes the item
+	 */
+	async update(): Promise<void> {
+		const updateId = ++this.updateId;
+		// The same decision the switcher acts on, so the warning never names another profile
+		const decision = await getExpectedDecision();
+		const activeProfile = await getRunningProfileName(this.context.globalStorageUri);
+
+		// A newer update started while the running profile was being read
+		if (updateId !== this.updateId) {
+			return;
+		}
+		this.decision = decision;
+		this.activeProfile = activeProfile;
+
+		const expected = this.decision?.profile;
+		const running = this.activeProfile;
+
+		if (!expected && !running) {
+			this.item.hide();
+			return;
+		}
+
+		const mismatch = expected !== undefined && running !== undefined && expected !== running;
+		const tooltip = new vscode.MarkdownString();
+
+		if (expected && this.decision?.rule) {
+			tooltip.appendMarkdown(
+				`**Expected profile:** ${expected} (${describeRule(this.decision.rule)})\n\n`,
+			);
+		} else {
+			tooltip.appendMarkdown("**Expected profile:** none, no rule applies to this file\n\n");
+		}
+		tooltip.appendMarkdown(`**Running profile:** ${running ?? "unknown"}\n\n`);
+		tooltip.appendMarkdown("Click to switch, pin or reassign the profile for this folder");
+
+		this.item.text = mismatch
+			? `$(warning) ${expected} (running ${running})`
+			: `$(account) ${expected ?? running}`;
+		this.item.tooltip = tooltip;
+		this.item.backgroundColor = mismatch
+			? new vscode.ThemeColor("statusBarItem.warningBackground")
+			: undefined;
+		this.item.show();
+	}
+
+	/**
+	 * Quick pick opened by clicking the status bar item
+	 */
+	private async showActions(): Promise<void> {
+		// The file of the active text or notebook editor
+		const fileUri = getActiveFileUri();
+		const decision = this.decision;
+		const workspaceFolder = fileUri ? vscode.workspace.getWorkspaceFolder(fileUri) : undefined;
+
+		const actions: StatusBarAction[] = [];
+
+		if (decision?.profile && decision.profile !== this.activeProfile) {
+			const profile = decision.profile;
+			actions.push({
+				label: `$(arrow-swap) Switch to "${profile}"`,
+				description: decision.rule ? describeRule(decision.rule) : undefined,
+				// Queued with the automatic switches, so it can't race one
+				run: async () => {
+					const result = await this.scheduler.switchTo(profile, {
+						trigger: "command",
+						rule: decision.rule,
+					});
+					if (result.outcome === "failed") {
+						vscode.window.showWarningMessage(
+							`Failed to switch to profile "${profile}": ${result.reason}. Please switch manually.`,
+						);
+					} else if (result.outcome === "pickerShown") {
+						vscode.window.showInformationMessage(
+							`VS Code did not switch automatically. Choose "${profile}" in the profile picker to switch now.`,
+						);
+					}
+					this.refresh();
+				},
+			});
+		}
+
+		if (fileUri && workspaceFolder) {
+			const folderUri = vscode.Uri.joinPath(fileUri, "..");
+			const relativeFolder = getRelativePath(workspaceFolder.uri, folderUri);
+			const isRoot = relativeFolder === "";
+			const folderKey = `${relativeFolder}/`;
+			const folderLabel = isRoot ? workspaceFolder.name : folderKey;
+			const runningProfile = this.activeProfile;
+
+			if (runningProfile) {
+				actions.push({
+					label: `$(pin) Pin "${runningProfile}" to ${folderLabel}`,
+					description: "Map this folder to the running profile",
+					run: async () => {
+						const target = await pickSettingsTarget(workspaceFolder, isRoot ? "workspace" : "directory");
+						if (!target) {
+							return;
+						}
+
+						try {
+							if (isRoot) {
+								await writeWorkspaceProfile(workspaceFolder, runningProfile, target);
+							} else {
+								await writeDirectoryProfile(workspaceFolder, folderKey, runningProfile, target);
+							}
+						} catch (error) {
+							vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+							return;
+						}
+						vscode.window.showInformationMessage(`Profile "${runningProfile}" pinned to ${folderLabel}.`);
+					},
+				});
+			}
+
+			actions.push({
+				label: `$(edit) Reassign profile for ${folderLabel}`,
+				description: "Choose another profile for this folder",
+				run: () =>
+					isRoot
+						? selectProfileForWorkspace(this.scheduler)
+						: selectProfileForFolder(this.scheduler, folderUri),
+			});
+		}
+
+		actions.push({
+			label: "$(info) Explain profile for this file",
+			run: async () => {
+				await vscode.commands.executeCommand("profileSwitcher.explainProfile");
+			},
+		});
+
+		const selected = await vscode.window.showQuickPick(actions, {
+			placeHolder: this.decision?.profile
+				? `Expected profile: ${this.decision.profile}, running: ${this.activeProfile ?? "unknown"}`
+				: "No profile rule applies to this file",
+		});
+
+		if (selected) {
+			await selected.run();
+			this.refresh();
+		}
+	}
+
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+	}
+}